@@ -0,0 +1,92 @@
+// --- 分類精度の評価（コマンドライン） ---
+// npm run eval -- [--taxonomy pmbok6|pmbok7|eco] [--mode standard|mock] [--replay 録画.json] [--dictionary 辞書.json]
+//                 [--min 0.7] [--json]
+// --min を指定すると正解率がそれを下回ったときに終了コード 1 を返す（CI・テストから使う）
+// --replay は録画時の分類体系で評価するため --taxonomy・--mode とは併用できない
+// 模擬AI（--mode mock）は標準辞書で分類するため --dictionary とは併用できない
+import { readFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { DEFAULT_CATEGORIES, importProfileJson, describeProfileError } from '../src/lib/dictionary'
+import { createTranslator } from '../src/lib/i18n'
+import { PROVIDERS } from '../src/lib/providers'
+import { DEFAULT_REDACTION_SETTINGS } from '../src/lib/redaction'
+import { EVAL_CORPUS } from '../src/lib/evalCorpus'
+import type { EvalReport } from '../src/lib/evaluation'
+import { evaluateStandard, evaluateAI, replayProvider, parseRecording, isRecordingStale, formatReport } from '../src/lib/evaluation'
+import { DEFAULT_TAXONOMY, isTaxonomyId } from '../src/lib/taxonomy'
+
+const { values } = parseArgs({
+  options: {
+    taxonomy: { type: 'string' },
+    mode: { type: 'string' },
+    replay: { type: 'string' },
+    dictionary: { type: 'string' },
+    min: { type: 'string' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const loadCategories = () => {
+  if (!values.dictionary) return { categories: DEFAULT_CATEGORIES, name: '標準辞書' };
+  const result = importProfileJson(readFileSync(values.dictionary, 'utf8'));
+  if (!result.ok) return fail(`辞書を読み込めませんでした:\n${result.errors.map(e => describeProfileError(createTranslator('ja'), e)).join('\n')}`);
+  return { categories: result.profile.categories, name: result.profile.name };
+};
+
+// 指定しても使われない組み合わせは、その設定で評価したように見えないよう止める
+const checkOptions = () => {
+  if (values.replay && values.taxonomy !== undefined) fail('--replay では録画時の分類体系で評価するため、--taxonomy は指定できません');
+  if (values.replay && values.mode !== undefined) fail('--replay では録画した応答で評価するため、--mode は指定できません');
+  if (values.mode === 'mock' && values.dictionary) fail('模擬AIは標準辞書で分類するため、--mode mock では --dictionary は指定できません');
+};
+
+const run = async (): Promise<EvalReport> => {
+  checkOptions();
+  const { categories, name } = loadCategories();
+  const taxonomy = values.taxonomy ?? DEFAULT_TAXONOMY;
+  if (!isTaxonomyId(taxonomy)) return fail(`未対応の分類体系です: ${taxonomy}`);
+  const mode = values.mode ?? 'standard';
+
+  if (values.replay) {
+    const recording = parseRecording(readFileSync(values.replay, 'utf8'));
+    if (isRecordingStale(recording)) console.warn('注意: 録画時からシステムプロンプトが変わっています。録画を更新してください');
+    const provider = replayProvider(recording);
+    const ctx = {
+      provider,
+      config: provider.defaults,
+      apiKey: '',
+      categories,
+      redaction: recording.redaction,
+      language: recording.language,
+      taxonomy: recording.taxonomy,
+    };
+    return (await evaluateAI(EVAL_CORPUS, ctx, { runner: `${provider.name} / ${recording.model}` })).report;
+  }
+  if (mode === 'mock') {
+    const ctx = {
+      provider: PROVIDERS.mock,
+      config: PROVIDERS.mock.defaults,
+      apiKey: '',
+      categories,
+      redaction: DEFAULT_REDACTION_SETTINGS,
+      language: 'ja' as const,
+      taxonomy,
+    };
+    return (await evaluateAI(EVAL_CORPUS, ctx, { runner: PROVIDERS.mock.name })).report;
+  }
+  if (mode !== 'standard') return fail(`未対応のモードです: ${mode}`);
+  return evaluateStandard(EVAL_CORPUS, categories, taxonomy, `Standard (${name})`);
+};
+
+const report = await run();
+console.log(values.json ? JSON.stringify(report, null, 2) : formatReport(report));
+
+if (values.min !== undefined && report.accuracy < Number(values.min)) {
+  console.error(`正解率 ${(report.accuracy * 100).toFixed(1)}% が基準 ${(Number(values.min) * 100).toFixed(1)}% を下回りました`);
+  process.exit(1);
+}
@@ -1,493 +1,924 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
-  ArrowRight, Check, Download, Sparkles, Briefcase, AlertCircle, 
-  FileText, AlertTriangle, ShieldCheck, Users, Layers, Zap, 
-  Cpu, Key, Settings2, XCircle, Terminal, Eye, Lock, Trash2 
+  ArrowRight, Check, Download, Sparkles, Zap, 
+  Cpu, Settings2, Terminal, Eye, Lock, BookOpen, Loader2, RotateCcw, Square, History, FileSpreadsheet, Languages, Compass, FlaskConical, Users, WifiOff, CloudUpload, Link2, Copy 
 } from 'lucide-react'
 import html2canvas from 'html2canvas'
-
-// --- 定数設定 ---
-const GEMINI_MODEL = 'gemini-2.5-flash-lite';
-
-const SYSTEM_PROMPT = `
-You are an expert Project Manager.
-Analyze the user's task description and map it to a PMBOK Knowledge Area.
-Return ONLY a JSON object with the following structure (no markdown):
-{
-  "label": "Professional PM Term (e.g. Stakeholder Management)",
-  "text": "A professional description in Japanese (approx 30 chars)",
-  "iconKey": "One of: AlertTriangle, Users, FileText, ShieldCheck, Layers, Zap, Briefcase"
-}
-`;
-
-// --- 型定義 ---
-type Mode = 'standard' | 'ai';
-
-type SkillCategory = {
-  label: string;
-  text: string;
-  icon: any;
-  color: string;
-  bg: string;
-  isError?: boolean;
-};
-
-type DebugLog = {
-  prompt: string;
-  input: string;
-  response: string;
-};
-
-// アイコンマップ
-const ICON_MAP: Record<string, any> = {
-  AlertTriangle, Users, FileText, ShieldCheck, Layers, Zap, Briefcase, AlertCircle
-};
-
-// --- スタンダードモード（辞書ロジック） ---
-const analyzeTextStandard = (inputText: string): SkillCategory => {
-  const text = inputText.trim().toLowerCase();
-  
-  const dictionary = [
-    { keys: ['怒', 'クレーム', '苦情', '謝', '詫', 'トラブル', '事故', '緊急'], label: 'クライシスマネジメント', text: '不測の事態における迅速な課題解決とリスク極小化', icon: AlertTriangle, color: 'text-red-600', bg: 'bg-red-50' },
-    { keys: ['調整', '合意', '相談', '依頼', '電話', 'メール', '会議', '説明', '窓口', '対応'], label: 'ステークホルダーマネジメント', text: '多様な関係者との利害調整および合意形成のリード', icon: Users, color: 'text-blue-600', bg: 'bg-blue-50' },
-    { keys: ['企画', '案', '立案', '仕様', '要件', '検討', '決', 'ルール', '方針'], label: 'プロジェクト計画・構想', text: '実現可能性を考慮した業務要件定義および実装計画の策定', icon: FileText, color: 'text-purple-600', bg: 'bg-purple-50' },
-    { keys: ['チェック', '確認', 'ミス', '修正', '校正', 'テスト', '検算', '監査'], label: '品質管理 (QA/QC)', text: '成果物の品質基準策定および厳格な検証プロセスの遂行', icon: ShieldCheck, color: 'text-emerald-600', bg: 'bg-emerald-50' },
-    { keys: ['日程', 'スケジュール', '納期', '期限', '進行', '管理', '段取り', '工程'], label: '工程管理 (Time Mgmt)', text: 'WBSに基づく厳密な進捗管理とリソースの最適配分', icon: Layers, color: 'text-orange-600', bg: 'bg-orange-50' },
-    { keys: ['データ', '集計', '入力', 'エクセル', '数字', '分析', '計算', 'システム'], label: 'データドリブン・オペレーション', text: '定量的データに基づく業務プロセスの可視化と効率化', icon: Zap, color: 'text-yellow-600', bg: 'bg-yellow-50' },
-  ];
-
-  for (const cat of dictionary) {
-    if (cat.keys.some(k => text.includes(k))) {
-      return { ...cat };
-    }
-  }
-
-  return {
-    label: 'ジェネラル・アドミニストレーション',
-    text: '組織運営を円滑化するための定常業務の確実な遂行',
-    icon: Briefcase,
-    color: 'text-slate-500',
-    bg: 'bg-slate-50'
-  };
-};
-
-// --- AIモード（API呼び出し） ---
-const callGeminiAPI = async (text: string, apiKey: string): Promise<{ result: SkillCategory, log: DebugLog }> => {
-  try {
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        system_instruction: { parts: [{ text: SYSTEM_PROMPT }] },
-        contents: [ { parts: [{ text: text }] } ]
-      })
-    });
-
-    const data = await response.json();
-
-    if (data.error) throw new Error(data.error.message || 'API Error');
-    
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!content) throw new Error("No content generated");
-
-    const cleanJson = content.replace(/```json/g, '').replace(/```/g, '').trim();
-    const parsed = JSON.parse(cleanJson);
-
-    return {
-      result: {
-        label: parsed.label,
-        text: parsed.text,
-        icon: ICON_MAP[parsed.iconKey] || Briefcase,
-        color: 'text-indigo-600',
-        bg: 'bg-indigo-50'
-      },
-      log: {
-        prompt: SYSTEM_PROMPT,
-        input: text,
-        response: cleanJson
-      }
-    };
-
-  } catch (e: any) {
-    return {
-      result: {
-        label: 'API Error',
-        text: `接続失敗: ${e.message}`,
-        icon: XCircle,
-        color: 'text-red-500',
-        bg: 'bg-red-50',
-        isError: true
-      },
-      log: { prompt: SYSTEM_PROMPT, input: text, response: JSON.stringify(e.message) }
-    };
-  }
-};
+import type { Mode, Task, SkillCategory, DebugLog, AreaOption, AchievementContext } from './types'
+import { analyzeTextStandard } from './lib/classifier'
+import type { TaxonomyId } from './lib/taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS, DEFAULT_TAXONOMY, entryName, taxonomyName, loadTaxonomyId, saveTaxonomyId } from './lib/taxonomy'
+import { createTask, tasksFromInputs, taskDetail } from './lib/tasks'
+import type { AIContext } from './lib/ai'
+import { translateWithAI, toErrorOutcome } from './lib/ai'
+import { buildStarInput, fillStarTemplate, generateBulletsWithAI } from './lib/resume'
+import type { JobStatus, RunnerSettings } from './lib/batchRunner'
+import { runBatch, loadRunnerSettings, saveRunnerSettings } from './lib/batchRunner'
+import type { ProviderSettings } from './lib/providers'
+import { PROVIDERS, loadProviderSettings, saveProviderSettings, apiKeyStorageKey } from './lib/providers'
+import type { KeyStorageMode } from './lib/keyVault'
+import { loadKeyStorageMode, saveKeyStorageMode, clearTabKeys, useKeyVault } from './lib/keyVault'
+import type { QueuedTaskList } from './lib/offline'
+import { useOnlineStatus, needsNetwork, loadQueue, saveQueue, enqueueTasks } from './lib/offline'
+import type { DictionaryProfile } from './lib/dictionary'
+import { loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId } from './lib/dictionary'
+import DictionaryEditor from './components/DictionaryEditor'
+import ProviderSettingsPanel from './components/ProviderSettingsPanel'
+import ResultCard, { PendingCard } from './components/ResultCard'
+import TaskListEditor from './components/TaskListEditor'
+import TaskImportDialog from './components/TaskImportDialog'
+import RedactionPanel from './components/RedactionPanel'
+import type { RedactionSettings } from './lib/redaction'
+import { redactText, loadRedactionSettings, saveRedactionSettings } from './lib/redaction'
+import ExportMenu from './components/ExportMenu'
+import SkillDashboard from './components/SkillDashboard'
+import type { ExportFormat } from './lib/exporters'
+import { buildPortfolio, exportPortfolio, exportFilename } from './lib/exporters'
+import HistoryScreen from './components/HistoryScreen'
+import EvaluationScreen from './components/EvaluationScreen'
+import TeamScreen from './components/TeamScreen'
+import OfflineQueuePanel from './components/OfflineQueuePanel'
+import PromptPlayground from './components/PromptPlayground'
+import SharedLinkScreen from './components/SharedLinkScreen'
+import ShareLinkDialog from './components/ShareLinkDialog'
+import type { SharedSession } from './lib/share'
+import { parseShareFragment, clearShareFragment } from './lib/share'
+import type { SavedSession } from './lib/history'
+import { saveSession, createSessionStamp } from './lib/history'
+import type { Locale } from './lib/i18n'
+import { LOCALES, I18nContext, createTranslator, translate, loadUiLocale, saveUiLocale, loadOutputLanguage, saveOutputLanguage } from './lib/i18n'
+
+type Screen = 'wizard' | 'dictionary' | 'history' | 'evaluation' | 'team' | 'shared';
+
+// 履歴に保存する経歴書のうち、入力・結果以外の情報
+type SessionMeta = Omit<SavedSession, 'inputs' | 'results' | 'details' | 'updatedAt'>;
+
+const omitKeys = <T,>(record: Record<string, T>, keys: string[]): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([k]) => !keys.includes(k)));
 
 export default function App() {
+  // 共有リンク（#share/...）から開いたときは、まずリンクの読み込み画面を表示する
+  const [shareLink] = useState(() => parseShareFragment(window.location.hash));
+  const [screen, setScreen] = useState<Screen>(shareLink ? 'shared' : 'wizard');
   const [step, setStep] = useState(0);
   const [mode, setMode] = useState<Mode>('standard');
-  const [apiKey, setApiKey] = useState('');
-  const [inputs, setInputs] = useState<string[]>([]);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  // 「このタブだけ記憶」ではセッションストレージから、「暗号化して保存」では解錠した保管庫からキーを読む
+  const [keyStorage, setKeyStorage] = useState<KeyStorageMode>(loadKeyStorageMode);
+  const [tabApiKey, setTabApiKey] = useState(() => sessionStorage.getItem(apiKeyStorageKey(providerSettings.active)) || '');
+  const vault = useKeyVault();
+  const online = useOnlineStatus();
+  const [offlineQueue, setOfflineQueue] = useState<QueuedTaskList[]>(loadQueue);
+  const [tasks, setTasks] = useState<Task[]>([]);
   const [currentInput, setCurrentInput] = useState('');
-  const [aiResults, setAiResults] = useState<SkillCategory[]>([]);
-  const [debugLogs, setDebugLogs] = useState<DebugLog[]>([]);
+  const [showImport, setShowImport] = useState(false);
+  // 結果はタスクIDで引く。AIモードでは完了したタスクから順に埋まる
+  const [aiResults, setAiResults] = useState<Record<string, SkillCategory>>({});
+  const [debugLogs, setDebugLogs] = useState<Record<string, DebugLog>>({});
+  const [jobStatuses, setJobStatuses] = useState<Record<string, JobStatus>>({});
+  const [runnerSettings, setRunnerSettings] = useState<RunnerSettings>(loadRunnerSettings);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
+  const [profiles, setProfiles] = useState<DictionaryProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
   const resultRef = useRef<HTMLDivElement>(null);
-
-  // 初期化時にセッションストレージからキーを読み込む
-  useEffect(() => {
-    const savedKey = sessionStorage.getItem('gemini_api_key');
-    if (savedKey) setApiKey(savedKey);
-  }, []);
+  const abortRef = useRef<AbortController | null>(null);
+  const [sessionMeta, setSessionMeta] = useState<SessionMeta | null>(null);
+  // 共有リンクで開いた経歴書は、複製するまで編集も履歴への保存もしない
+  const [readOnly, setReadOnly] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  // 履歴に保存できなかった理由（結果画面に表示する）
+  const [historySaveError, setHistorySaveError] = useState('');
+  const [uiLocale, setUiLocale] = useState<Locale>(loadUiLocale);
+  const [outputLanguage, setOutputLanguage] = useState<Locale>(loadOutputLanguage);
+  const [taxonomyId, setTaxonomyId] = useState<TaxonomyId>(loadTaxonomyId);
+
+  const t = createTranslator(uiLocale);
+  // 結果画面は経歴書を作成したときの出力言語で表示する
+  const language = sessionMeta?.language ?? outputLanguage;
+  const taxonomy = TAXONOMIES[sessionMeta?.taxonomy ?? taxonomyId];
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const provider = PROVIDERS[providerSettings.active];
+  const providerConfig = providerSettings.configs[providerSettings.active];
+  const apiKey = keyStorage === 'vault' ? vault.secretFor(provider.id) : tabApiKey;
+  // オフライン中は通信が必要なプロバイダでの変換を止め、入力した業務は保留する
+  const aiOffline = !online && needsNetwork(provider, providerConfig);
+
+  // 結果画面で分類先を差し替える際の候補（どちらのモードもセッションの分類体系のエントリ）
+  const areaOptions: AreaOption[] = taxonomy.entries.map(e => ({
+    id: e.id, label: entryName(e, language), iconKey: e.iconKey, color: 'text-indigo-600', bg: 'bg-indigo-50',
+  }));
 
   const saveApiKey = (key: string) => {
-    setApiKey(key);
-    sessionStorage.setItem('gemini_api_key', key);
+    setTabApiKey(key);
+    sessionStorage.setItem(apiKeyStorageKey(provider.id), key);
   };
 
   // キー削除（共用PC用）
   const clearApiKey = () => {
-    setApiKey('');
-    sessionStorage.removeItem('gemini_api_key');
+    setTabApiKey('');
+    sessionStorage.removeItem(apiKeyStorageKey(provider.id));
+  };
+
+  const updateKeyStorage = (next: KeyStorageMode) => {
+    setKeyStorage(next);
+    saveKeyStorageMode(next);
+    // 暗号化して保存する運用に切り替えたら、平文のキーをタブに残さない
+    if (next === 'vault') {
+      clearTabKeys();
+      setTabApiKey('');
+    }
+  };
+
+  const updateProviderSettings = (next: ProviderSettings) => {
+    setProviderSettings(next);
+    saveProviderSettings(next);
+    // プロバイダを切り替えたら、そのプロバイダ用のキーを読み直す
+    if (next.active !== providerSettings.active) {
+      setTabApiKey(sessionStorage.getItem(apiKeyStorageKey(next.active)) || '');
+    }
+  };
+
+  const updateUiLocale = (next: Locale) => {
+    setUiLocale(next);
+    saveUiLocale(next);
+  };
+
+  const updateOutputLanguage = (next: Locale) => {
+    setOutputLanguage(next);
+    saveOutputLanguage(next);
+  };
+
+  const updateTaxonomy = (next: TaxonomyId) => {
+    setTaxonomyId(next);
+    saveTaxonomyId(next);
+  };
+
+  const updateRunnerSettings = (next: RunnerSettings) => {
+    setRunnerSettings(next);
+    saveRunnerSettings(next);
+  };
+
+  const updateRedactionSettings = (next: RedactionSettings) => {
+    setRedactionSettings(next);
+    saveRedactionSettings(next);
+  };
+
+  const updateProfiles = (next: DictionaryProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const selectProfile = (id: string) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
   };
 
   const addInput = () => {
     if (!currentInput.trim()) return;
-    setInputs([...inputs, currentInput]);
+    setTasks([...tasks, createTask(currentInput)]);
     setCurrentInput('');
   };
 
-  const processTranslation = async () => {
+  const importTasks = (imported: Task[]) => {
+    setTasks([...tasks, ...imported]);
+    setShowImport(false);
+  };
+
+  // 結果が出た業務だけを履歴・共有リンクの形にまとめる
+  const buildSession = (meta: SessionMeta, taskList: Task[], results: Record<string, SkillCategory>): Omit<SavedSession, 'updatedAt'> => {
+    const finished = taskList.filter(task => results[task.id]);
+    return {
+      ...meta,
+      inputs: finished.map(task => task.text),
+      results: finished.map(task => results[task.id]),
+      details: finished.map(taskDetail),
+    };
+  };
+
+  // 変換結果を履歴（IndexedDB）に保存する。保存に失敗しても画面の操作は続けられるようにする
+  const saveToHistory = (meta: SessionMeta, taskList: Task[], results: Record<string, SkillCategory>) => {
+    setHistorySaveError('');
+    saveSession(buildSession(meta, taskList, results))
+      .catch((e: unknown) => setHistorySaveError(e instanceof Error ? e.message : String(e)));
+  };
+
+  const createSessionMeta = (sessionMode = mode, sessionLanguage = outputLanguage, sessionTaxonomy = taxonomyId): SessionMeta => ({
+    ...createSessionStamp(uiLocale),
+    mode: sessionMode,
+    language: sessionLanguage,
+    taxonomy: sessionTaxonomy,
+    ...(sessionMode === 'ai'
+      ? { provider: provider.name, model: providerConfig.model }
+      : { dictionary: activeProfile.name }),
+  });
+
+  const createAIContext = (sessionLanguage: Locale, sessionTaxonomy: TaxonomyId): AIContext => ({
+    provider,
+    config: providerConfig,
+    apiKey,
+    categories: activeProfile.categories,
+    redaction: redactionSettings,
+    language: sessionLanguage,
+    taxonomy: sessionTaxonomy,
+  });
+
+  // 指定したタスクだけをキューに入れ、完了したものから結果に反映する
+  const runAIJobs = async (targets: Task[], meta: SessionMeta, base: Record<string, SkillCategory>, taskList = tasks) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
-    setDebugLogs([]);
+    setJobStatuses(prev => ({ ...prev, ...Object.fromEntries(targets.map(task => [task.id, 'pending' as JobStatus])) }));
+    setAiResults(prev => omitKeys(prev, targets.map(task => task.id)));
+
+    const collected = omitKeys(base, targets.map(task => task.id));
+    const sessionLanguage = meta.language ?? 'ja';
+    const sessionTaxonomy = meta.taxonomy ?? DEFAULT_TAXONOMY;
+    const ctx = createAIContext(sessionLanguage, sessionTaxonomy);
+    // 「最初に戻る」で破棄した実行の結果は、新しい画面にも履歴にも反映しない
+    const isCurrent = () => abortRef.current === controller;
+    await runBatch(
+      targets.map(task => ({ id: task.id, item: task.text })),
+      (text, signal) => translateWithAI(text, ctx, signal),
+      runnerSettings,
+      controller.signal,
+      ({ id, status, result, error }) => {
+        if (!isCurrent()) return;
+        setJobStatuses(prev => ({ ...prev, [id]: status }));
+        // デバッグログには伏せ字処理後の送信内容だけを残す
+        const sent = redactText(targets.find(task => task.id === id)?.text ?? '', redactionSettings).text;
+        const outcome = status === 'done' ? result
+          : status === 'failed' || status === 'cancelled' ? toErrorOutcome(sent, error, status === 'cancelled', sessionLanguage, sessionTaxonomy)
+          : undefined;
+        if (outcome) {
+          collected[id] = outcome.result;
+          setAiResults(prev => ({ ...prev, [id]: outcome.result }));
+          setDebugLogs(prev => ({ ...prev, [id]: outcome.log }));
+        }
+      }
+    );
+
+    if (!isCurrent()) return;
+    abortRef.current = null;
+    setIsProcessing(false);
+    saveToHistory(meta, taskList, collected);
+  };
+
+  const processTranslation = async () => {
+    const meta = createSessionMeta();
+    setSessionMeta(meta);
+    setDebugLogs({});
     
     if (mode === 'standard') {
-      const results = inputs.map(input => analyzeTextStandard(input));
+      const results = Object.fromEntries(tasks.map(task => [task.id, analyzeTextStandard(task.text, activeProfile.categories, outputLanguage, taxonomyId)]));
       setAiResults(results);
+      setJobStatuses({});
+      setStep(2);
+      saveToHistory(meta, tasks, results);
     } else {
-      const promises = inputs.map(input => callGeminiAPI(input, apiKey));
-      const rawResults = await Promise.all(promises);
-      setAiResults(rawResults.map(r => r.result));
-      setDebugLogs(rawResults.map(r => r.log));
+      setAiResults({});
+      setJobStatuses({});
+      setStep(2);
+      await runAIJobs(tasks, meta, {});
     }
-    
+  };
+
+  const cancelTranslation = () => abortRef.current?.abort();
+
+  const updateOfflineQueue = (next: QueuedTaskList[]) => {
+    setOfflineQueue(next);
+    saveQueue(next);
+  };
+
+  // オフライン中の AI モードでは変換の代わりに保留し、トップ画面へ戻る
+  const queueTranslation = () => {
+    updateOfflineQueue(enqueueTasks(offlineQueue, tasks, outputLanguage, taxonomyId));
+    resetSession();
+  };
+
+  const translateQueued = async (item: QueuedTaskList) => {
+    updateOfflineQueue(offlineQueue.filter(q => q.id !== item.id));
+    const meta = createSessionMeta('ai', item.language, item.taxonomy);
+    setMode('ai');
+    setTasks(item.tasks);
+    setSessionMeta(meta);
+    setDebugLogs({});
+    setAiResults({});
+    setJobStatuses({});
     setStep(2);
+    await runAIJobs(item.tasks, meta, {}, item.tasks);
+  };
+
+  const statusList = Object.values(jobStatuses);
+  const finishedCount = statusList.filter(s => s === 'done' || s === 'failed' || s === 'cancelled').length;
+  // 履歴から開いた経歴書でも再実行できるよう、失敗はカードの状態から判定する
+  const failedTasks = tasks.filter(task => aiResults[task.id]?.isError);
+
+  const retryFailed = () => {
+    if (sessionMeta) runAIJobs(failedTasks, sessionMeta, aiResults);
+  };
+
+  // --- 結果画面でのカード単位の操作 ---
+  const updateResult = (id: string, result: SkillCategory) => {
+    const next = { ...aiResults, [id]: result };
+    setAiResults(next);
+    if (sessionMeta) saveToHistory(sessionMeta, tasks, next);
+  };
+
+  // スキルプロフィールで入力した工数・頻度も履歴に残す
+  const updateTaskDetails = (next: Task[]) => {
+    setTasks(next);
+    if (sessionMeta) saveToHistory(sessionMeta, next, aiResults);
+  };
+
+  // 追加質問への回答をタスクに残し、STAR形式の箇条書きをカードに加える
+  const generateBullets = async (task: Task, achievement: AchievementContext) => {
+    const result = aiResults[task.id];
+    if (!result) return;
+    const nextTasks = tasks.map(item => (item.id === task.id ? { ...item, achievement } : item));
+    setTasks(nextTasks);
+    const input = buildStarInput({ ...task, achievement }, result, activeProfile.categories, taxonomy.id);
+    const bullets = mode === 'ai'
+      ? (await generateBulletsWithAI(input, createAIContext(language, taxonomy.id))).bullets
+      : fillStarTemplate(input, language);
+    setAiResults(prev => ({ ...prev, [task.id]: { ...prev[task.id], bullets } }));
+    if (sessionMeta) saveToHistory(sessionMeta, nextTasks, { ...aiResults, [task.id]: { ...result, bullets } });
+  };
+
+  const rerunTask = (task: Task) => {
+    if (!sessionMeta) return;
+    if (mode === 'standard') {
+      updateResult(task.id, analyzeTextStandard(task.text, activeProfile.categories, language, taxonomy.id));
+    } else {
+      runAIJobs([task], sessionMeta, aiResults);
+    }
+  };
+
+  const openSession = (session: Omit<SavedSession, 'updatedAt'>, sessionReadOnly = false) => {
+    const restored = tasksFromInputs(session.inputs, session.details);
+    setMode(session.mode);
+    setReadOnly(sessionReadOnly);
+    setShowShare(false);
+    setSessionMeta({
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      mode: session.mode,
+      dictionary: session.dictionary,
+      provider: session.provider,
+      model: session.model,
+      language: session.language ?? 'ja',
+      taxonomy: session.taxonomy ?? DEFAULT_TAXONOMY,
+    });
+    setTasks(restored);
+    setAiResults(Object.fromEntries(restored.map((task, i) => [task.id, session.results[i]])));
+    setDebugLogs({});
+    setJobStatuses({});
+    setStep(2);
+    setScreen('wizard');
+  };
+
+  // 共有リンクの経歴書は新しい ID で読み取り専用として開く（複製するまで履歴には保存しない）
+  const openShared = (session: SharedSession) => {
+    clearShareFragment();
+    openSession({ ...createSessionStamp(uiLocale), ...session }, true);
+  };
+
+  const closeShared = () => {
+    clearShareFragment();
+    setScreen('wizard');
+  };
+
+  const cloneShared = () => {
+    setReadOnly(false);
+    if (sessionMeta) saveToHistory(sessionMeta, tasks, aiResults);
+  };
+
+  const resetSession = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setIsProcessing(false);
+    setTasks([]);
+    setStep(0);
+    setAiResults({});
+    setDebugLogs({});
+    setJobStatuses({});
+    setSessionMeta(null);
+    setReadOnly(false);
+    setShowShare(false);
+    setHistorySaveError('');
   };
 
   const handleDownload = async () => {
     if (resultRef.current) {
       const canvas = await html2canvas(resultRef.current, { scale: 2, backgroundColor: '#ffffff' });
       const link = document.createElement('a');
-      link.download = 'gov_pm_skills.png';
+      link.download = exportFilename(sessionMeta?.title ?? '', 'png');
       link.href = canvas.toDataURL();
       link.click();
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    if (sessionMeta) exportPortfolio(format, buildPortfolio(sessionMeta, tasks, aiResults));
+  };
+
   return (
-    <div className="min-h-screen p-4 md:p-8 flex flex-col items-center justify-center max-w-2xl mx-auto font-sans text-slate-800">
-      <AnimatePresence mode="wait">
+    <I18nContext.Provider value={t}>
+      <div className="min-h-screen p-4 md:p-8 flex flex-col items-center justify-center max-w-2xl mx-auto font-sans text-slate-800">
+        {/* オフライン表示 */}
+        {!online && (
+          <div className="fixed top-3 left-3 z-20 flex items-center gap-1 bg-amber-50/90 backdrop-blur border border-amber-200 text-amber-700 rounded-full px-3 py-1 shadow-sm text-[10px] font-bold">
+            <WifiOff size={12} /> {t('offline.indicator')}
+          </div>
+        )}
+
+        {/* 画面の表示言語 */}
+        <div className="fixed top-3 right-3 z-20 flex items-center gap-1 bg-white/80 backdrop-blur border border-slate-200 rounded-full px-2 py-1 shadow-sm text-[10px] font-bold">
+          <Languages size={12} className="text-slate-400" />
+          {LOCALES.map(l => (
+            <button
+              key={l.id}
+              onClick={() => updateUiLocale(l.id)}
+              className={`px-1.5 py-0.5 rounded-full ${uiLocale === l.id ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {l.label}
+            </button>
+          ))}
+        </div>
+
+        <AnimatePresence mode="wait">
+
+          {/* 分類精度の評価 */}
+          {screen === 'evaluation' && (
+            <EvaluationScreen
+              locale={uiLocale}
+              categories={activeProfile.categories}
+              dictionaryName={activeProfile.name}
+              taxonomy={taxonomyId}
+              createContext={(evalTaxonomy) => (provider.requiresApiKey && !apiKey ? null : createAIContext(outputLanguage, evalTaxonomy))}
+              onClose={() => setScreen('wizard')}
+            />
+          )}
+
+          {/* チーム集計 */}
+          {screen === 'team' && (
+            <TeamScreen locale={uiLocale} taxonomy={taxonomyId} onClose={() => setScreen('wizard')} />
+          )}
+
+          {/* 共有リンク */}
+          {screen === 'shared' && shareLink && (
+            <SharedLinkScreen link={shareLink} onOpen={openShared} onClose={closeShared} />
+          )}
+
+          {/* 履歴 */}
+          {screen === 'history' && (
+            <HistoryScreen onOpen={openSession} onClose={() => setScreen('wizard')} locale={uiLocale} />
+          )}
+
+          {/* 辞書エディタ */}
+          {screen === 'dictionary' && (
+            <DictionaryEditor
+              locale={uiLocale}
+              profiles={profiles}
+              activeId={activeProfile.id}
+              onChange={updateProfiles}
+              onSelect={selectProfile}
+              onClose={() => setScreen('wizard')}
+            />
+          )}
         
-        {/* STEP 0: トップ画面 */}
-        {step === 0 && (
-          <motion.div
-            key="step0"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -20 }}
-            className="text-center space-y-8 w-full max-w-md mx-auto"
-          >
-            <div className="space-y-4">
-              <div className="bg-gradient-to-br from-slate-800 to-slate-900 text-white p-6 rounded-[2rem] w-24 h-24 mx-auto flex items-center justify-center shadow-2xl">
-                <Sparkles size={44} />
+          {/* STEP 0: トップ画面 */}
+          {screen === 'wizard' && step === 0 && (
+            <motion.div
+              key="step0"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="text-center space-y-8 w-full max-w-md mx-auto"
+            >
+              <div className="space-y-4">
+                <div className="bg-gradient-to-br from-slate-800 to-slate-900 text-white p-6 rounded-[2rem] w-24 h-24 mx-auto flex items-center justify-center shadow-2xl">
+                  <Sparkles size={44} />
+                </div>
+                <h1 className="text-4xl font-extrabold tracking-tight leading-tight">
+                  Gov PM Translator
+                </h1>
+                <div className="space-y-2">
+                  <p className="text-lg font-bold text-slate-700 whitespace-pre-line">
+                    {t('app.tagline')}
+                  </p>
+                  <p className="text-sm text-slate-500 leading-relaxed">
+                    {t('app.introBefore')}<br/>
+                    <span className="text-slate-800 font-bold bg-yellow-100 px-1">{t('app.introHighlight')}</span><br/>
+                    {t('app.introAfter')}
+                  </p>
+                </div>
               </div>
-              <h1 className="text-4xl font-extrabold tracking-tight leading-tight">
-                Gov PM Translator
-              </h1>
-              <div className="space-y-2">
-                <p className="text-lg font-bold text-slate-700">
-                  「ただの事務」を、<br/>「市場価値のあるスキル」へ。
-                </p>
-                <p className="text-sm text-slate-500 leading-relaxed">
-                  あなたが毎日当たり前にこなしている業務を、<br/>
-                  <span className="text-slate-800 font-bold bg-yellow-100 px-1">世界標準のプロジェクトマネジメント用語</span><br/>
-                  に置き換えて翻訳・言語化します。
+
+              {/* モード選択 */}
+              <div className="bg-white p-1.5 rounded-2xl border border-slate-200 flex relative shadow-sm">
+                <button
+                  onClick={() => setMode('standard')}
+                  className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2 ${mode === 'standard' ? 'bg-slate-100 text-slate-900 shadow-sm ring-1 ring-black/5' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  <Zap size={18} /> Standard
+                </button>
+                <button
+                  onClick={() => setMode('ai')}
+                  className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2 ${mode === 'ai' ? 'bg-indigo-50 text-indigo-600 shadow-sm ring-1 ring-indigo-100' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  <Cpu size={18} /> AI Mode
+                </button>
+              </div>
+              {mode === 'ai' && aiOffline && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2 text-left flex gap-2 items-start">
+                  <WifiOff size={14} className="shrink-0 mt-0.5" /> {t('offline.aiNote')}
                 </p>
+              )}
+
+              {/* オフライン中に保留した業務 */}
+              {offlineQueue.length > 0 && (
+                <OfflineQueuePanel
+                  queue={offlineQueue}
+                  locale={uiLocale}
+                  canTranslate={!aiOffline && !(provider.requiresApiKey && !apiKey)}
+                  onTranslate={translateQueued}
+                  onDelete={(id) => updateOfflineQueue(offlineQueue.filter(q => q.id !== id))}
+                />
+              )}
+
+              {/* 経歴書の出力言語（画面の表示言語とは別に選ぶ） */}
+              <div className="bg-white border border-slate-200 rounded-2xl p-4 flex gap-2 items-center text-left shadow-sm">
+                <Languages size={18} className="text-slate-500 shrink-0" />
+                <span className="text-xs font-bold text-slate-600 flex-1">{t('app.outputLanguage')}</span>
+                <select
+                  value={outputLanguage}
+                  onChange={(e) => updateOutputLanguage(e.target.value as Locale)}
+                  className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
+                >
+                  {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                </select>
               </div>
-            </div>
 
-            {/* モード選択 */}
-            <div className="bg-white p-1.5 rounded-2xl border border-slate-200 flex relative shadow-sm">
-              <button
-                onClick={() => setMode('standard')}
-                className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2 ${mode === 'standard' ? 'bg-slate-100 text-slate-900 shadow-sm ring-1 ring-black/5' : 'text-slate-400 hover:text-slate-600'}`}
-              >
-                <Zap size={18} /> Standard
-              </button>
-              <button
-                onClick={() => setMode('ai')}
-                className={`flex-1 py-3 rounded-xl text-sm font-bold transition-all flex items-center justify-center gap-2 ${mode === 'ai' ? 'bg-indigo-50 text-indigo-600 shadow-sm ring-1 ring-indigo-100' : 'text-slate-400 hover:text-slate-600'}`}
-              >
-                <Cpu size={18} /> AI Mode
-              </button>
-            </div>
-
-            {/* AIモードの説明欄 */}
-            <AnimatePresence>
-              {mode === 'ai' && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 0, height: 0 }}
-                  className="overflow-hidden text-left"
+              {/* 分類先の PM フレームワーク（セッションごとに記録する） */}
+              <div className="bg-white border border-slate-200 rounded-2xl p-4 space-y-2 text-left shadow-sm">
+                <div className="flex gap-2 items-center">
+                  <Compass size={18} className="text-slate-500 shrink-0" />
+                  <span className="text-xs font-bold text-slate-600 flex-1">{t('app.taxonomy')}</span>
+                </div>
+                <select
+                  value={taxonomyId}
+                  onChange={(e) => updateTaxonomy(e.target.value as TaxonomyId)}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
                 >
-                  <div className="bg-indigo-50/50 border border-indigo-100 rounded-2xl p-5 space-y-4 mt-2">
-                    <div className="flex gap-3 items-start">
-                      <div className="bg-white p-2 rounded-lg shadow-sm text-indigo-600 shrink-0">
-                        <Cpu size={20} />
-                      </div>
-                      <div className="text-xs leading-relaxed text-indigo-900">
-                        <span className="font-bold block mb-1 text-sm">AIがあなたの仕事を「解釈」します</span>
-                        入力された業務内容（文脈）をGemini AIが読み解き、最も適切なPMBOK（プロジェクト管理知識体系）の用語へ高度に変換します。
-                      </div>
-                    </div>
+                  {TAXONOMY_IDS.map(id => <option key={id} value={id}>{taxonomyName(TAXONOMIES[id], uiLocale)}</option>)}
+                </select>
+                {TAXONOMIES[taxonomyId].principles && (
+                  <details className="text-[11px] text-slate-500">
+                    <summary className="cursor-pointer font-bold">{t('app.principles')}</summary>
+                    <ol className="list-decimal pl-5 mt-1 space-y-0.5">
+                      {TAXONOMIES[taxonomyId].principles?.map(p => <li key={p.id}>{entryName(p, uiLocale)}</li>)}
+                    </ol>
+                  </details>
+                )}
+              </div>
 
-                    <div className="space-y-2">
-                      <label className="text-xs font-bold text-slate-500 ml-1 flex items-center gap-1">
-                        <Key size={12} /> Google Gemini API Keyを設定してください
-                      </label>
-                      <div className="flex gap-2">
-                        <input 
-                          type="password" 
-                          value={apiKey}
-                          onChange={(e) => saveApiKey(e.target.value)}
-                          placeholder="AI Studio Keyを入力..."
-                          className="flex-1 bg-white border border-indigo-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-shadow"
-                        />
-                        {apiKey && (
-                          <button 
-                            onClick={clearApiKey}
-                            className="bg-white text-red-500 border border-red-100 hover:bg-red-50 rounded-xl px-3 py-2 flex items-center justify-center transition-colors shadow-sm"
-                            title="キー情報を削除"
-                          >
-                            <Trash2 size={18} />
-                          </button>
-                        )}
-                      </div>
-                      {/* 共用PC向けの注意書き */}
-                      <p className="text-[10px] text-red-500 font-bold flex items-center gap-1 ml-1">
-                        ⚠️ 共用PCの方は、使用後に必ず削除ボタンでキーを消去してください。
-                      </p>
-                    </div>
+              {/* スタンダードモードの辞書選択 */}
+              {mode === 'standard' && (
+                <div className="bg-white border border-slate-200 rounded-2xl p-4 flex gap-2 items-center text-left shadow-sm">
+                  <BookOpen size={18} className="text-slate-500 shrink-0" />
+                  <select
+                    value={activeProfile.id}
+                    onChange={(e) => selectProfile(e.target.value)}
+                    className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
+                  >
+                    {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <button onClick={() => setScreen('dictionary')} className="text-xs font-bold bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl px-3 py-2 shrink-0">
+                    {t('app.editDictionary')}
+                  </button>
+                </div>
+              )}
 
-                    {/* セキュリティ・スペック注釈 */}
-                    <div className="grid gap-2">
-                      <div className="flex gap-2 items-start bg-white/60 p-2 rounded-lg border border-indigo-100/50">
-                        <Lock size={14} className="text-green-600 mt-0.5 shrink-0" />
-                        <p className="text-[10px] text-slate-500 leading-tight">
-                          <span className="font-bold text-slate-700">高セキュリティ:</span> 入力データとAPIキーは、あなたのブラウザからGoogleへ直接送信されます。当アプリのサーバーは経由・保存しません。
-                        </p>
+              {/* AIモードの説明欄 */}
+              <AnimatePresence>
+                {mode === 'ai' && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="overflow-hidden text-left"
+                  >
+                    <div className="bg-indigo-50/50 border border-indigo-100 rounded-2xl p-5 space-y-4 mt-2">
+                      <div className="flex gap-3 items-start">
+                        <div className="bg-white p-2 rounded-lg shadow-sm text-indigo-600 shrink-0">
+                          <Cpu size={20} />
+                        </div>
+                        <div className="text-xs leading-relaxed text-indigo-900">
+                          <span className="font-bold block mb-1 text-sm">{t('app.aiTitle')}</span>
+                          {t('app.aiDescription')}
+                        </div>
                       </div>
-                      <div className="flex gap-2 items-start bg-white/60 p-2 rounded-lg border border-indigo-100/50">
-                        <Zap size={14} className="text-yellow-600 mt-0.5 shrink-0" />
-                        <p className="text-[10px] text-slate-500 leading-tight">
-                          <span className="font-bold text-slate-700">最適化モデル:</span> コストパフォーマンスと応答速度に優れたモデル <code>{GEMINI_MODEL}</code> を使用します。
-                        </p>
+
+                      <ProviderSettingsPanel
+                        settings={providerSettings}
+                        onChange={updateProviderSettings}
+                        apiKey={apiKey}
+                        onApiKeyChange={saveApiKey}
+                        onApiKeyClear={clearApiKey}
+                        keyStorage={keyStorage}
+                        onKeyStorageChange={updateKeyStorage}
+                        vault={vault}
+                        runnerSettings={runnerSettings}
+                        onRunnerSettingsChange={updateRunnerSettings}
+                      />
+
+                      {/* セキュリティ・スペック注釈 */}
+                      <div className="grid gap-2">
+                        <div className="flex gap-2 items-start bg-white/60 p-2 rounded-lg border border-indigo-100/50">
+                          <Lock size={14} className="text-green-600 mt-0.5 shrink-0" />
+                          <p className="text-[10px] text-slate-500 leading-tight">
+                            <span className="font-bold text-slate-700">{t('app.securityTitle')}:</span> {t('app.securityNote', { provider: t(`provider.${provider.id}.name` as const) })}
+                          </p>
+                        </div>
+                        <div className="flex gap-2 items-start bg-white/60 p-2 rounded-lg border border-indigo-100/50">
+                          <Zap size={14} className="text-yellow-600 mt-0.5 shrink-0" />
+                          <p className="text-[10px] text-slate-500 leading-tight">
+                            <span className="font-bold text-slate-700">{t('app.modelTitle')}:</span> <code>{providerConfig.model}</code> {t('app.modelNote')}
+                          </p>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
+                  </motion.div>
+                )}
+              </AnimatePresence>
 
-            <button
-              onClick={() => setStep(1)}
-              disabled={mode === 'ai' && !apiKey}
-              className={`w-full py-4 rounded-2xl font-bold shadow-xl flex items-center justify-center gap-3 transition-all hover:scale-[1.02] active:scale-[0.98] ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-200 disabled:text-slate-400' : 'bg-slate-900 hover:bg-slate-800 text-white'}`}
+              <button
+                onClick={() => setStep(1)}
+                disabled={mode === 'ai' && provider.requiresApiKey && !apiKey && !aiOffline}
+                className={`w-full py-4 rounded-2xl font-bold shadow-xl flex items-center justify-center gap-3 transition-all hover:scale-[1.02] active:scale-[0.98] ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-200 disabled:text-slate-400' : 'bg-slate-900 hover:bg-slate-800 text-white'}`}
+              >
+                {mode === 'ai' ? t('app.startAi') : t('app.startStandard')} <ArrowRight size={20} />
+              </button>
+
+              <button onClick={() => setScreen('history')} className="text-xs font-bold text-slate-400 hover:text-slate-700 flex items-center justify-center gap-1 mx-auto">
+                <History size={14} /> {t('app.openHistory')}
+              </button>
+              <button onClick={() => setScreen('team')} className="text-xs font-bold text-slate-400 hover:text-slate-700 flex items-center justify-center gap-1 mx-auto">
+                <Users size={14} /> {t('app.openTeam')}
+              </button>
+              <button onClick={() => setScreen('evaluation')} className="text-[10px] font-bold text-slate-300 hover:text-slate-600 flex items-center justify-center gap-1 mx-auto">
+                <FlaskConical size={12} /> {t('app.openEvaluation')}
+              </button>
+            </motion.div>
+          )}
+
+          {/* STEP 1: 入力画面 */}
+          {screen === 'wizard' && step === 1 && (
+            <motion.div
+              key="step1"
+              initial={{ opacity: 0, x: 50 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -50 }}
+              className="w-full max-w-md mx-auto space-y-6"
             >
-              {mode === 'ai' ? 'AIモードで開始' : 'スタンダードで開始'} <ArrowRight size={20} />
-            </button>
-          </motion.div>
-        )}
+              <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800">{t('app.inventoryTitle')}</h2>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {mode === 'ai' ? t('app.inventoryAi') : t('app.inventoryStandard', { name: activeProfile.name })}
+                  </p>
+                </div>
+                <div className={`text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 ${mode === 'ai' ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-600'}`}>
+                  {mode === 'ai' ? <Cpu size={12}/> : <Zap size={12}/>}
+                  {mode === 'ai' ? `${t(`provider.${provider.id}.name` as const)} Mode` : 'Standard'}
+                </div>
+              </div>
 
-        {/* STEP 1: 入力画面 */}
-        {step === 1 && (
-          <motion.div
-            key="step1"
-            initial={{ opacity: 0, x: 50 }}
-            animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -50 }}
-            className="w-full max-w-md mx-auto space-y-6"
-          >
-            <div className="flex justify-between items-end border-b border-slate-100 pb-4">
-              <div>
-                <h2 className="text-xl font-bold text-slate-800">業務の棚卸し</h2>
-                <p className="text-xs text-slate-500 mt-1">
-                  {mode === 'ai' ? 'AIが文脈を読み取ります' : 'キーワード辞書で変換します'}
-                </p>
+              <div className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 min-h-[240px] flex flex-col gap-3">
+                <TaskListEditor tasks={tasks} mode={mode} onChange={setTasks} />
+                {tasks.length === 0 && (
+                  <div className="flex-1 flex flex-col items-center justify-center opacity-30 gap-3">
+                    <Settings2 size={32} className="text-slate-400" />
+                    <p className="text-xs text-center leading-relaxed whitespace-pre-line">
+                      {t('app.emptyTasks')}
+                    </p>
+                  </div>
+                )}
               </div>
-              <div className={`text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 ${mode === 'ai' ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-600'}`}>
-                {mode === 'ai' ? <Cpu size={12}/> : <Zap size={12}/>}
-                {mode === 'ai' ? 'Gemini Mode' : 'Standard'}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={currentInput}
+                  onChange={(e) => setCurrentInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addInput()}
+                  placeholder={t('app.taskPlaceholder')}
+                  className="flex-1 p-4 rounded-2xl bg-white border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-400 shadow-sm text-sm"
+                />
+                <button onClick={addInput} disabled={!currentInput.trim()} className="bg-slate-800 disabled:bg-slate-200 text-white p-4 rounded-2xl shadow-md transition-colors">
+                  <Check />
+                </button>
               </div>
-            </div>
-
-            <div className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 min-h-[240px] flex flex-col gap-3">
-              {inputs.map((text, i) => (
-                <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} key={i} className="bg-slate-50 px-4 py-3 rounded-xl text-slate-700 text-sm flex items-center gap-3 border border-slate-100 group">
-                  <div className={`w-1.5 h-1.5 rounded-full shrink-0 transition-colors ${mode === 'ai' ? 'bg-indigo-500 group-hover:bg-indigo-400' : 'bg-slate-500 group-hover:bg-slate-400'}`} />
-                  <span className="break-all">{text}</span>
-                </motion.div>
-              ))}
-              {inputs.length === 0 && (
-                <div className="flex-1 flex flex-col items-center justify-center opacity-30 gap-3">
-                  <Settings2 size={32} className="text-slate-400" />
-                  <p className="text-xs text-center leading-relaxed">
-                    最近やった仕事を<br/>思いつくままに入力してください
-                  </p>
-                </div>
+
+              {mode === 'ai' && tasks.length > 0 && (
+                <RedactionPanel settings={redactionSettings} onChange={updateRedactionSettings} tasks={tasks} />
               )}
-            </div>
-
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={currentInput}
-                onChange={(e) => setCurrentInput(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && addInput()}
-                placeholder="例：クレーム電話対応、資料作成..."
-                className="flex-1 p-4 rounded-2xl bg-white border border-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-400 shadow-sm text-sm"
-              />
-              <button onClick={addInput} disabled={!currentInput.trim()} className="bg-slate-800 disabled:bg-slate-200 text-white p-4 rounded-2xl shadow-md transition-colors">
-                <Check />
-              </button>
-            </div>
 
-            {inputs.length >= 1 && (
-              <button
-                onClick={processTranslation}
-                disabled={isProcessing}
-                className={`w-full text-white py-4 rounded-2xl font-bold shadow-xl mt-4 flex items-center justify-center gap-2 transition-all ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-900 hover:bg-slate-800'} ${isProcessing ? 'opacity-70 cursor-wait' : ''}`}
-              >
-                {isProcessing ? <span className="animate-pulse">解析中...</span> : <><Sparkles size={18} className="text-yellow-400" /> PMスキルに変換</>}
-              </button>
-            )}
-          </motion.div>
-        )}
+              <AnimatePresence>
+                {showImport ? (
+                  <TaskImportDialog key="import" existing={tasks} onImport={importTasks} onClose={() => setShowImport(false)} />
+                ) : (
+                  <button key="import-button" onClick={() => setShowImport(true)} className="text-xs font-bold text-slate-400 hover:text-slate-700 flex items-center justify-center gap-1 mx-auto">
+                    <FileSpreadsheet size={14} /> {t('app.import')}
+                  </button>
+                )}
+              </AnimatePresence>
 
-        {/* STEP 2: 結果画面 */}
-        {step === 2 && (
-          <motion.div
-            key="step2"
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="w-full max-w-md mx-auto"
-          >
-            <div ref={resultRef} className="bg-white p-6 md:p-8 rounded-3xl shadow-xl border border-slate-100 mb-6 relative overflow-hidden">
-              <div className={`absolute top-0 right-0 w-40 h-40 rounded-bl-[100px] -z-0 opacity-40 bg-gradient-to-br ${mode === 'ai' ? 'from-indigo-100 to-purple-100' : 'from-slate-100 to-cyan-50'}`} />
+              {tasks.length >= 1 && mode === 'ai' && aiOffline ? (
+                <button
+                  onClick={queueTranslation}
+                  className="w-full bg-amber-500 hover:bg-amber-600 text-white py-4 rounded-2xl font-bold shadow-xl mt-4 flex items-center justify-center gap-2 transition-all"
+                >
+                  <CloudUpload size={18} /> {t('offline.queue')}
+                </button>
+              ) : tasks.length >= 1 && (
+                <button
+                  onClick={processTranslation}
+                  disabled={isProcessing}
+                  className={`w-full text-white py-4 rounded-2xl font-bold shadow-xl mt-4 flex items-center justify-center gap-2 transition-all ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-900 hover:bg-slate-800'} ${isProcessing ? 'opacity-70 cursor-wait' : ''}`}
+                >
+                  {isProcessing ? <span className="animate-pulse">{t('app.analyzing')}</span> : <><Sparkles size={18} className="text-yellow-400" /> {t('app.translate')}</>}
+                </button>
+              )}
+            </motion.div>
+          )}
+
+          {/* STEP 2: 結果画面 */}
+          {screen === 'wizard' && step === 2 && (
+            <motion.div
+              key="step2"
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="w-full max-w-md mx-auto"
+            >
+              {/* 共有リンクで開いた経歴書 */}
+              {readOnly && (
+                <div className="bg-indigo-50 border border-indigo-100 rounded-2xl p-3 mb-4 flex items-center gap-2 text-xs text-indigo-700">
+                  <Eye size={14} className="shrink-0" />
+                  <span className="flex-1 font-bold">{t('share.readOnly')}</span>
+                  <button onClick={cloneShared} className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg px-3 py-1.5 font-bold flex items-center gap-1 shrink-0">
+                    <Copy size={12} /> {t('share.clone')}
+                  </button>
+                </div>
+              )}
+
+              <div ref={resultRef} className="bg-white p-6 md:p-8 rounded-3xl shadow-xl border border-slate-100 mb-6 relative overflow-hidden">
+                <div className={`absolute top-0 right-0 w-40 h-40 rounded-bl-[100px] -z-0 opacity-40 bg-gradient-to-br ${mode === 'ai' ? 'from-indigo-100 to-purple-100' : 'from-slate-100 to-cyan-50'}`} />
               
-              <div className="flex justify-between items-start mb-8 relative z-10">
-                <div>
-                  <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Project Management Portfolio</h3>
-                  <h2 className="text-2xl font-extrabold text-slate-800">自治体PM 経歴書</h2>
+                <div className="flex justify-between items-start mb-8 relative z-10">
+                  <div>
+                    <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Project Management Portfolio</h3>
+                    <h2 className="text-2xl font-extrabold text-slate-800">{translate(language, 'portfolio.title')}</h2>
+                  </div>
+                  {mode === 'ai' && (
+                     <div className="bg-indigo-100 text-indigo-700 text-[10px] font-bold px-2 py-1 rounded-md self-start flex items-center gap-1">
+                       <Cpu size={10} /> Powered by {sessionMeta?.provider ?? provider.name}
+                     </div>
+                  )}
+                </div>
+
+                <div className="space-y-6 relative z-10">
+                  {tasks.map((task, i) => {
+                    const result = aiResults[task.id];
+                    return result ? (
+                      <ResultCard
+                        key={task.id}
+                        result={result}
+                        input={task.text}
+                        isLast={i === tasks.length - 1}
+                        areaOptions={areaOptions}
+                        onChange={(next) => updateResult(task.id, next)}
+                        onRerun={() => rerunTask(task)}
+                        disabled={isProcessing}
+                        readOnly={readOnly}
+                        language={language}
+                        achievement={task.achievement ?? {}}
+                        onGenerateBullets={(achievement) => generateBullets(task, achievement)}
+                      />
+                    ) : (
+                      <PendingCard key={task.id} input={task.text} status={jobStatuses[task.id] ?? 'pending'} />
+                    );
+                  })}
+                </div>
+
+                <div className="mt-10 pt-4 border-t border-slate-100 flex justify-between items-end relative z-10">
+                  <div className="text-[10px] text-slate-400 leading-tight">Generated by<br/><span className="font-bold text-slate-600">Gov PM Translator</span></div>
+                  <div className="text-4xl filter drop-shadow-sm">🏅</div>
                 </div>
-                {mode === 'ai' && (
-                   <div className="bg-indigo-100 text-indigo-700 text-[10px] font-bold px-2 py-1 rounded-md self-start flex items-center gap-1">
-                     <Cpu size={10} /> Powered by Gemini
-                   </div>
-                )}
               </div>
 
-              <div className="space-y-6 relative z-10">
-                {aiResults.map((result, i) => {
-                  const Icon = result.icon;
-                  return (
-                    <div key={i} className="group">
-                      <div className="flex gap-4 items-start">
-                        <div className={`mt-1 p-2 rounded-xl shrink-0 ${result.bg} ${result.color}`}>
-                          <Icon size={20} />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <div className={`text-[10px] font-bold mb-0.5 ${result.color} uppercase tracking-wider`}>
-                            {result.label}
-                          </div>
-                          <div className={`text-sm font-bold leading-snug mb-1 ${result.isError ? 'text-red-600' : 'text-slate-700'}`}>
-                            {result.text}
-                          </div>
-                          <div className="text-xs text-slate-400 flex items-center gap-2">
-                             <span className="line-through decoration-slate-300 opacity-60 truncate max-w-[200px] inline-block">{inputs[i]}</span>
-                          </div>
-                        </div>
-                      </div>
-                      {i !== inputs.length - 1 && <div className="h-px bg-slate-50 w-full mt-4 ml-14" />}
+              {/* AIモードの進捗・キャンセル・失敗分の再実行 */}
+              {mode === 'ai' && !readOnly && (isProcessing || failedTasks.length > 0) && (
+                <div className="bg-white border border-slate-100 rounded-2xl p-4 mb-4 space-y-3 shadow-sm">
+                  <div className="flex justify-between items-center text-xs font-bold text-slate-500">
+                    <span className="flex items-center gap-2">
+                      {isProcessing && <Loader2 size={14} className="animate-spin text-indigo-500" />}
+                      {isProcessing && t('app.progress', { done: finishedCount, total: statusList.length })}
+                      {failedTasks.length > 0 && <span className="text-red-500">{t('app.failed', { count: failedTasks.length })}</span>}
+                    </span>
+                    {isProcessing ? (
+                      <button onClick={cancelTranslation} className="text-red-500 hover:bg-red-50 rounded-lg px-2 py-1 flex items-center gap-1">
+                        <Square size={12} /> {t('common.cancel')}
+                      </button>
+                    ) : (
+                      <button onClick={retryFailed} disabled={aiOffline} title={aiOffline ? t('offline.indicator') : undefined} className="text-indigo-600 hover:bg-indigo-50 disabled:text-slate-300 disabled:hover:bg-transparent rounded-lg px-2 py-1 flex items-center gap-1">
+                        <RotateCcw size={12} /> {t('app.retryFailed')}
+                      </button>
+                    )}
+                  </div>
+                  {isProcessing && (
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finishedCount / Math.max(1, statusList.length)) * 100}%` }} />
                     </div>
-                  );
-                })}
-              </div>
+                  )}
+                </div>
+              )}
 
-              <div className="mt-10 pt-4 border-t border-slate-100 flex justify-between items-end relative z-10">
-                <div className="text-[10px] text-slate-400 leading-tight">Generated by<br/><span className="font-bold text-slate-600">Gov PM Translator</span></div>
-                <div className="text-4xl filter drop-shadow-sm">🏅</div>
+              {historySaveError && (
+                <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-xl px-3 py-2 mb-4">
+                  {t('history.saveFailed', { message: historySaveError })}
+                </p>
+              )}
+
+              {/* アクションボタン */}
+              <div className="flex gap-3 mb-4">
+                <button onClick={resetSession} className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-2xl font-bold text-sm hover:bg-slate-200 transition-colors">
+                  {t('app.restart')}
+                </button>
+                <button onClick={handleDownload} className={`flex-1 text-white py-4 rounded-2xl font-bold text-sm flex items-center justify-center gap-2 shadow-lg transition-colors ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-900 hover:bg-slate-800'}`}>
+                  <Download size={18} /> {t('app.saveImage')}
+                </button>
               </div>
-            </div>
 
-            {/* アクションボタン */}
-            <div className="flex gap-3 mb-8">
-              <button onClick={() => { setInputs([]); setStep(0); setAiResults([]); setDebugLogs([]); }} className="flex-1 bg-slate-100 text-slate-600 py-4 rounded-2xl font-bold text-sm hover:bg-slate-200 transition-colors">
-                最初に戻る
-              </button>
-              <button onClick={handleDownload} className={`flex-1 text-white py-4 rounded-2xl font-bold text-sm flex items-center justify-center gap-2 shadow-lg transition-colors ${mode === 'ai' ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-900 hover:bg-slate-800'}`}>
-                <Download size={18} /> 画像保存
+              <ExportMenu onExport={handleExport} disabled={isProcessing} />
+
+              {/* 共有リンク */}
+              <button
+                onClick={() => setShowShare(!showShare)}
+                disabled={isProcessing}
+                className="w-full bg-white border border-slate-100 hover:bg-slate-50 disabled:opacity-40 rounded-2xl py-3 mb-4 text-xs font-bold text-slate-600 flex items-center justify-center gap-2 shadow-sm"
+              >
+                <Link2 size={14} /> {t('share.button')}
               </button>
-            </div>
-
-            {/* AIデバッグ/教育モード（AIモード時のみ表示） */}
-            {mode === 'ai' && debugLogs.length > 0 && (
-              <div className="border border-slate-200 rounded-2xl overflow-hidden bg-slate-50">
-                <button 
-                  onClick={() => setShowDebug(!showDebug)}
-                  className="w-full flex items-center justify-between p-4 text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors"
-                >
-                  <span className="flex items-center gap-2"><Terminal size={14} /> AIの裏側を覗いてみる（学習用ログ）</span>
-                  {showDebug ? <Eye size={14} /> : <Eye className="opacity-50" size={14} />}
-                </button>
+              <AnimatePresence>
+                {showShare && sessionMeta && (
+                  <ShareLinkDialog session={buildSession(sessionMeta, tasks, aiResults)} onClose={() => setShowShare(false)} />
+                )}
+              </AnimatePresence>
+
+              <SkillDashboard tasks={tasks} results={aiResults} categories={activeProfile.categories} onTasksChange={updateTaskDetails} readOnly={readOnly} locale={uiLocale} taxonomy={taxonomy} />
+
+              {/* AIデバッグ/教育モード（AIモード時のみ表示） */}
+              {mode === 'ai' && Object.keys(debugLogs).length > 0 && (
+                <div className="border border-slate-200 rounded-2xl overflow-hidden bg-slate-50">
+                  <button 
+                    onClick={() => setShowDebug(!showDebug)}
+                    className="w-full flex items-center justify-between p-4 text-xs font-bold text-slate-500 hover:bg-slate-100 transition-colors"
+                  >
+                    <span className="flex items-center gap-2"><Terminal size={14} /> {t('app.debugTitle')}</span>
+                    {showDebug ? <Eye size={14} /> : <Eye className="opacity-50" size={14} />}
+                  </button>
                 
-                <AnimatePresence>
-                  {showDebug && (
-                    <motion.div 
-                      initial={{ height: 0 }} 
-                      animate={{ height: 'auto' }} 
-                      exit={{ height: 0 }} 
-                      className="overflow-hidden"
-                    >
-                      <div className="p-4 bg-slate-900 text-green-400 text-[10px] font-mono space-y-4 overflow-x-auto">
-                        {debugLogs.map((log, i) => (
-                          <div key={i} className="space-y-1 border-b border-slate-800 pb-4 last:border-0">
-                            <div className="text-slate-500"># Task {i + 1} Analysis</div>
-                            <div><span className="text-blue-400">Input:</span> "{log.input}"</div>
-                            <div className="opacity-50"><span className="text-purple-400">System Prompt:</span> {log.prompt.trim().substring(0, 40)}...</div>
-                            <div><span className="text-yellow-400">AI Response (JSON):</span></div>
-                            <pre className="text-slate-300 whitespace-pre-wrap break-all bg-slate-950 p-2 rounded border border-slate-800">
-                              {log.response}
-                            </pre>
-                          </div>
-                        ))}
-                        <div className="text-slate-500 pt-2 text-center">--- End of Stream ---</div>
-                      </div>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </div>
-            )}
+                  <AnimatePresence>
+                    {showDebug && (
+                      <motion.div 
+                        initial={{ height: 0 }} 
+                        animate={{ height: 'auto' }} 
+                        exit={{ height: 0 }} 
+                        className="overflow-hidden"
+                      >
+                        <PromptPlayground
+                          tasks={tasks}
+                          debugLogs={debugLogs}
+                          language={language}
+                          taxonomy={taxonomy.id}
+                          defaultModel={providerConfig.model}
+                          createContext={() => (provider.requiresApiKey && !apiKey ? null : createAIContext(language, taxonomy.id))}
+                        />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+              )}
 
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </I18nContext.Provider>
   )
 }
\ No newline at end of file
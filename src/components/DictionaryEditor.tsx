@@ -0,0 +1,292 @@
+import { useState, useRef } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Plus, Trash2, Copy, Download, Upload, AlertCircle, BookOpen, Briefcase } from 'lucide-react'
+import type { DictionaryCategory, DictionaryProfile, WeightedTerm, ProfileError } from '../lib/dictionary'
+import {
+  DEFAULT_PROFILE_ID, createDefaultProfile, createProfileId, formatTerms, parseTerms,
+  exportProfileJson, exportProfileCsv, importProfileJson, importProfileCsv, describeProfileError
+} from '../lib/dictionary'
+import { ICON_MAP, COLOR_PALETTE, isIconKey, resolveColor } from '../lib/icons'
+import { downloadText } from '../lib/download'
+import type { Locale } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+import type { TaxonomyId } from '../lib/taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS, categoryEntry, entryName, taxonomyName } from '../lib/taxonomy'
+
+type Props = {
+  locale: Locale;
+  profiles: DictionaryProfile[];
+  activeId: string;
+  onChange: (profiles: DictionaryProfile[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+};
+
+// キーワード欄は入力途中の「,」を消さないよう、フォーカスが外れた時点で確定する
+const TermsField = ({ label, value, onCommit }: { label: string; value: WeightedTerm[]; onCommit: (v: WeightedTerm[]) => void }) => {
+  const [draft, setDraft] = useState(formatTerms(value));
+  return (
+    <label className="block space-y-1">
+      <span className="text-[10px] font-bold text-slate-500">{label}</span>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onCommit(parseTerms(draft))}
+        rows={2}
+        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs focus:ring-2 focus:ring-slate-400 outline-none"
+      />
+    </label>
+  );
+};
+
+// 空を選んだ体系は既定の対応に戻す
+const setArea = (areas: DictionaryCategory['areas'], id: TaxonomyId, value: string): DictionaryCategory['areas'] => {
+  const next = { ...areas, [id]: value || undefined };
+  const entries = Object.entries(next).filter(([, v]) => v);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export default function DictionaryEditor({ locale, profiles, activeId, onChange, onSelect, onClose }: Props) {
+  const t = useI18n();
+  const [editingId, setEditingId] = useState(activeId);
+  const [importErrors, setImportErrors] = useState<ProfileError[]>([]);
+  // 初期化時にキーワード欄の下書きを破棄するためのリビジョン
+  const [revision, setRevision] = useState(0);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const profile = profiles.find(p => p.id === editingId) ?? profiles[0];
+
+  const updateProfile = (patch: Partial<DictionaryProfile>) => {
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...patch, updatedAt: Date.now() } : p)));
+  };
+
+  const updateCategory = (id: string, patch: Partial<DictionaryCategory>) => {
+    updateProfile({ categories: profile.categories.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+  };
+
+  const addCategory = () => {
+    updateProfile({
+      categories: [
+        ...profile.categories,
+        { id: `cat-${Date.now()}`, label: t('dictionary.newCategory'), text: '', iconKey: 'Briefcase', color: 'slate', keywords: [], phrases: [] },
+      ],
+    });
+  };
+
+  const deleteCategory = (id: string) => {
+    if (profile.categories.length <= 1) return;
+    updateProfile({ categories: profile.categories.filter(c => c.id !== id) });
+  };
+
+  const duplicateProfile = () => {
+    const copy: DictionaryProfile = { ...structuredClone(profile), id: createProfileId(), name: t('dictionary.copyName', { name: profile.name }), updatedAt: Date.now() };
+    onChange([...profiles, copy]);
+    setEditingId(copy.id);
+  };
+
+  const deleteProfile = () => {
+    if (profiles.length <= 1 || !confirm(t('dictionary.confirmDelete', { name: profile.name }))) return;
+    const rest = profiles.filter(p => p.id !== profile.id);
+    onChange(rest);
+    setEditingId(rest[0].id);
+    if (activeId === profile.id) onSelect(rest[0].id);
+  };
+
+  const resetDefault = () => {
+    if (!confirm(t('dictionary.confirmReset'))) return;
+    onChange(profiles.map(p => (p.id === DEFAULT_PROFILE_ID ? createDefaultProfile() : p)));
+    setRevision(r => r + 1);
+  };
+
+  const handleImport = async (file: File) => {
+    const content = await file.text();
+    const name = file.name.replace(/\.(json|csv)$/i, '');
+    const result = file.name.toLowerCase().endsWith('.csv') ? importProfileCsv(content, name) : importProfileJson(content);
+    if (!result.ok) {
+      setImportErrors(result.errors);
+      return;
+    }
+    // 既存辞書を上書きしないよう、取り込み時は常に新しい ID を振る
+    const imported = { ...result.profile, id: createProfileId() };
+    setImportErrors([]);
+    onChange([...profiles, imported]);
+    setEditingId(imported.id);
+  };
+
+  return (
+    <motion.div
+      key="dictionary"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="w-full max-w-md mx-auto space-y-6"
+    >
+      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><BookOpen size={20} /> {t('dictionary.title')}</h2>
+          <p className="text-xs text-slate-500 mt-1">{t('dictionary.subtitle')}</p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <ArrowLeft size={14} /> {t('common.back')}
+        </button>
+      </div>
+
+      {/* 辞書プロファイル */}
+      <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <div className="flex gap-2">
+          <select
+            value={profile.id}
+            onChange={(e) => setEditingId(e.target.value)}
+            className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
+          >
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={duplicateProfile} title={t('common.duplicate')} className="bg-slate-100 hover:bg-slate-200 rounded-xl px-3 text-slate-600"><Copy size={16} /></button>
+          <button onClick={deleteProfile} disabled={profiles.length <= 1} title={t('dictionary.delete')} className="bg-white text-red-500 border border-red-100 hover:bg-red-50 disabled:opacity-30 rounded-xl px-3"><Trash2 size={16} /></button>
+        </div>
+        <input
+          value={profile.name}
+          onChange={(e) => updateProfile({ name: e.target.value })}
+          placeholder={t('dictionary.name')}
+          className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => downloadText(`${profile.name}.json`, exportProfileJson(profile), 'application/json')} className="text-xs font-bold bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg px-3 py-2 flex items-center gap-1">
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={() => downloadText(`${profile.name}.csv`, exportProfileCsv(profile), 'text/csv')} className="text-xs font-bold bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg px-3 py-2 flex items-center gap-1">
+            <Download size={12} /> CSV
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="text-xs font-bold bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg px-3 py-2 flex items-center gap-1">
+            <Upload size={12} /> {t('dictionary.import')}
+          </button>
+          {profile.id === DEFAULT_PROFILE_ID && (
+            <button onClick={resetDefault} className="text-xs font-bold text-slate-400 hover:text-slate-600 px-2">{t('dictionary.reset')}</button>
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importErrors.length > 0 && (
+          <div className="bg-red-50 border border-red-100 rounded-xl p-3 text-[10px] text-red-600 space-y-1">
+            <div className="font-bold flex items-center gap-1"><AlertCircle size={12} /> {t('dictionary.importFailed')}</div>
+            {importErrors.map((err, i) => <div key={i}>・{describeProfileError(t, err)}</div>)}
+          </div>
+        )}
+      </div>
+
+      {/* カテゴリ一覧 */}
+      <div className="space-y-4">
+        {profile.categories.map(cat => {
+          const Icon = isIconKey(cat.iconKey) ? ICON_MAP[cat.iconKey] : Briefcase;
+          const palette = resolveColor(cat.color);
+          return (
+            <div key={`${profile.id}-${cat.id}-${revision}`} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+              <div className="flex gap-3 items-start">
+                <div className={`p-2 rounded-xl shrink-0 ${palette.bg} ${palette.color}`}>
+                  <Icon size={20} />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <input
+                    value={cat.label}
+                    onChange={(e) => updateCategory(cat.id, { label: e.target.value })}
+                    placeholder={t('dictionary.label')}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold focus:ring-2 focus:ring-slate-400 outline-none"
+                  />
+                  <input
+                    value={cat.text}
+                    onChange={(e) => updateCategory(cat.id, { text: e.target.value })}
+                    placeholder={t('dictionary.text')}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs focus:ring-2 focus:ring-slate-400 outline-none"
+                  />
+                  {/* 出力言語を英語にしたときの表示 */}
+                  <input
+                    value={cat.labelEn ?? ''}
+                    onChange={(e) => updateCategory(cat.id, { labelEn: e.target.value || undefined })}
+                    placeholder={t('dictionary.labelEn')}
+                    className="w-full border border-slate-100 bg-slate-50 rounded-lg px-3 py-1.5 text-xs font-bold focus:ring-2 focus:ring-slate-400 outline-none"
+                  />
+                  <input
+                    value={cat.textEn ?? ''}
+                    onChange={(e) => updateCategory(cat.id, { textEn: e.target.value || undefined })}
+                    placeholder={t('dictionary.textEn')}
+                    className="w-full border border-slate-100 bg-slate-50 rounded-lg px-3 py-1.5 text-xs focus:ring-2 focus:ring-slate-400 outline-none"
+                  />
+                  {/* 分類体系ごとの対応（未選択なら標準カテゴリの既定の対応） */}
+                  <div className="space-y-1">
+                    <span className="text-[10px] font-bold text-slate-500">{t('dictionary.areas')}</span>
+                    {TAXONOMY_IDS.map(id => {
+                      const taxonomy = TAXONOMIES[id];
+                      const fallback = categoryEntry({ ...cat, areas: undefined }, taxonomy);
+                      return (
+                        <select
+                          key={id}
+                          value={cat.areas?.[id] ?? ''}
+                          onChange={(e) => updateCategory(cat.id, { areas: setArea(cat.areas, id, e.target.value) })}
+                          title={taxonomyName(taxonomy, locale)}
+                          className="w-full border border-slate-100 bg-slate-50 rounded-lg px-2 py-1 text-[11px] text-slate-600"
+                        >
+                          <option value="">{taxonomyName(taxonomy, locale)}: {t('dictionary.areaDefault')}{fallback ? `（${entryName(fallback, locale)}）` : ''}</option>
+                          {(taxonomy.domains ?? [undefined]).map(domain => (
+                            <optgroup key={domain?.id ?? id} label={domain ? entryName(domain, locale) : taxonomyName(taxonomy, locale)}>
+                              {taxonomy.entries.filter(e => !domain || e.group === domain.id).map(e => (
+                                <option key={e.id} value={e.id}>{entryName(e, locale)}</option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                      );
+                    })}
+                  </div>
+                </div>
+                <button onClick={() => deleteCategory(cat.id)} disabled={profile.categories.length <= 1} title={t('dictionary.deleteCategory')} className="text-slate-300 hover:text-red-500 disabled:opacity-30">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(ICON_MAP).map(([key, KeyIcon]) => (
+                  <button
+                    key={key}
+                    onClick={() => updateCategory(cat.id, { iconKey: key })}
+                    title={key}
+                    className={`p-1.5 rounded-lg ${cat.iconKey === key ? 'bg-slate-800 text-white' : 'text-slate-400 hover:bg-slate-100'}`}
+                  >
+                    <KeyIcon size={14} />
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(COLOR_PALETTE).map(([key, p]) => (
+                  <button
+                    key={key}
+                    onClick={() => updateCategory(cat.id, { color: key })}
+                    title={key}
+                    className={`w-6 h-6 rounded-full ${p.bg} ${p.color} border-2 text-[10px] font-bold ${cat.color === key ? 'border-slate-800' : 'border-transparent'}`}
+                  >
+                    A
+                  </button>
+                ))}
+              </div>
+
+              <TermsField label={t('dictionary.keywords')} value={cat.keywords} onCommit={(keywords) => updateCategory(cat.id, { keywords })} />
+              <TermsField label={t('dictionary.phrases')} value={cat.phrases} onCommit={(phrases) => updateCategory(cat.id, { phrases })} />
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={addCategory} className="w-full border-2 border-dashed border-slate-200 text-slate-500 hover:border-slate-400 hover:text-slate-700 py-3 rounded-2xl text-sm font-bold flex items-center justify-center gap-2">
+        <Plus size={16} /> {t('dictionary.addCategory')}
+      </button>
+    </motion.div>
+  );
+}
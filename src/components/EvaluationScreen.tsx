@@ -0,0 +1,282 @@
+import { useState, useRef } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, FlaskConical, Play, Square, Download, Upload, AlertCircle, Zap, Cpu, RotateCcw } from 'lucide-react'
+import type { DictionaryCategory } from '../lib/dictionary'
+import type { AIContext } from '../lib/ai'
+import type { EvalReport, EvalRecording } from '../lib/evaluation'
+import { evaluateStandard, evaluateAI, replayProvider, parseRecording, isRecordingStale, formatReport, UNMAPPED } from '../lib/evaluation'
+import { EVAL_CORPUS } from '../lib/evalCorpus'
+import type { TaxonomyId } from '../lib/taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS, entryName, taxonomyName } from '../lib/taxonomy'
+import { downloadText } from '../lib/download'
+import type { Locale } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+import type { MessageKey } from '../lib/messages'
+
+type Props = {
+  locale: Locale;
+  categories: DictionaryCategory[];
+  dictionaryName: string;
+  taxonomy: TaxonomyId;
+  // 使用中のプロバイダ設定でAIモードの文脈を作る（APIキーが未入力なら null）
+  createContext: (taxonomy: TaxonomyId) => AIContext | null;
+  onClose: () => void;
+};
+
+type Runner = 'standard' | 'ai' | 'replay';
+
+const RUNNERS: { id: Runner; label: MessageKey; icon: typeof Zap }[] = [
+  { id: 'standard', label: 'eval.runner.standard', icon: Zap },
+  { id: 'ai', label: 'eval.runner.ai', icon: Cpu },
+  { id: 'replay', label: 'eval.runner.replay', icon: RotateCcw },
+];
+
+const percent = (value?: number) => (value === undefined ? '-' : `${Math.round(value * 100)}%`);
+
+// 管理者向け: 同梱のコーパスで分類精度を測り、辞書やプロンプトの変更前後を比べる
+export default function EvaluationScreen({ locale, categories, dictionaryName, taxonomy: initialTaxonomy, createContext, onClose }: Props) {
+  const t = useI18n();
+  const [taxonomyId, setTaxonomyId] = useState<TaxonomyId>(initialTaxonomy);
+  const [runner, setRunner] = useState<Runner>('standard');
+  const [report, setReport] = useState<EvalReport | null>(null);
+  const [recording, setRecording] = useState<EvalRecording | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const taxonomy = TAXONOMIES[report?.taxonomy ?? taxonomyId];
+  const labelOf = (id: string) => {
+    const entry = taxonomy.entries.find(e => e.id === id);
+    return entry ? entryName(entry, locale) : t('eval.unmapped');
+  };
+
+  const runAI = async (ctx: AIContext, runnerName: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: EVAL_CORPUS.length });
+    try {
+      const outcome = await evaluateAI(EVAL_CORPUS, ctx, {
+        runner: runnerName,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setReport(outcome.report);
+      // 再生では録画を差し替えない
+      if (runner === 'ai') setRecording(outcome.recording);
+    } catch (e) {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const run = () => {
+    setError('');
+    if (runner === 'standard') {
+      setReport(evaluateStandard(EVAL_CORPUS, categories, taxonomyId, `Standard (${dictionaryName})`));
+      return;
+    }
+    if (runner === 'replay') {
+      if (!recording) return setError(t('eval.noRecording'));
+      const provider = replayProvider(recording);
+      runAI({
+        provider,
+        config: provider.defaults,
+        apiKey: '',
+        categories,
+        redaction: recording.redaction,
+        language: recording.language,
+        taxonomy: recording.taxonomy,
+      }, `${provider.name} / ${recording.model}`);
+      return;
+    }
+    const ctx = createContext(taxonomyId);
+    if (!ctx) return setError(t('eval.noApiKey'));
+    runAI(ctx, `${ctx.provider.name} / ${ctx.config.model}`);
+  };
+
+  const loadRecording = async (file: File) => {
+    setError('');
+    try {
+      const loaded = parseRecording(await file.text());
+      setRecording(loaded);
+      setTaxonomyId(loaded.taxonomy);
+    } catch (e) {
+      setError(t('eval.recordingFailed', { message: e instanceof Error ? e.message : String(e) }));
+    }
+  };
+
+  return (
+    <motion.div
+      key="evaluation"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="w-full max-w-2xl mx-auto space-y-6"
+    >
+      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><FlaskConical size={20} /> {t('eval.title')}</h2>
+          <p className="text-xs text-slate-500 mt-1">{t('eval.subtitle', { count: EVAL_CORPUS.length })}</p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <ArrowLeft size={14} /> {t('common.back')}
+        </button>
+      </div>
+
+      {/* 評価の条件 */}
+      <div className="bg-white border border-slate-200 rounded-2xl p-4 space-y-3 shadow-sm">
+        <select
+          value={taxonomyId}
+          onChange={(e) => setTaxonomyId(e.target.value as TaxonomyId)}
+          disabled={runner === 'replay' || progress !== null}
+          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
+        >
+          {TAXONOMY_IDS.map(id => <option key={id} value={id}>{taxonomyName(TAXONOMIES[id], locale)}</option>)}
+        </select>
+        <div className="flex gap-1">
+          {RUNNERS.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRunner(r.id)}
+              disabled={progress !== null}
+              className={`flex-1 text-xs font-bold rounded-lg py-2 flex items-center justify-center gap-1 ${runner === r.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+            >
+              <r.icon size={12} /> {t(r.label)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500">{t(`eval.runnerNote.${runner}` as const)}</p>
+
+        {runner === 'replay' && (
+          <div className="space-y-1">
+            <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadRecording(file);
+              e.target.value = '';
+            }} />
+            <button onClick={() => fileRef.current?.click()} className="text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 flex items-center gap-1">
+              <Upload size={12} /> {t('eval.loadRecording')}
+            </button>
+            {recording && (
+              <p className="text-[10px] text-slate-500">
+                {t('eval.recordingInfo', { provider: recording.providerName, model: recording.model, date: recording.recordedAt.slice(0, 10) })}
+              </p>
+            )}
+            {recording && isRecordingStale(recording) && (
+              <p className="text-[10px] text-amber-600 font-bold flex items-center gap-1"><AlertCircle size={12} /> {t('eval.stale')}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={run} disabled={progress !== null} className="flex-1 bg-slate-900 disabled:bg-slate-300 text-white rounded-xl py-2 text-sm font-bold flex items-center justify-center gap-1">
+            <Play size={14} /> {progress ? t('eval.running', { done: progress.done, total: progress.total }) : t('eval.run')}
+          </button>
+          {progress && (
+            <button onClick={() => abortRef.current?.abort()} className="bg-slate-100 text-slate-600 rounded-xl px-4 text-sm font-bold flex items-center gap-1">
+              <Square size={12} /> {t('common.cancel')}
+            </button>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-500 font-bold">{error}</p>}
+      </div>
+
+      {report && (
+        <div className="bg-white border border-slate-200 rounded-2xl p-4 space-y-4 shadow-sm">
+          <div className="flex justify-between items-start">
+            <div>
+              <div className="text-3xl font-extrabold text-slate-800">{percent(report.accuracy)}</div>
+              <div className="text-[10px] text-slate-500">{t('eval.accuracy', { correct: report.correct, total: report.total })} · {report.runner}</div>
+            </div>
+            <div className="flex gap-1">
+              <button onClick={() => downloadText(`evaluation_${report.taxonomy}.txt`, formatReport(report), 'text/plain')} title={t('eval.downloadReport')} className="text-slate-400 hover:text-slate-700 p-1.5 flex items-center gap-1 text-[10px] font-bold">
+                <Download size={12} /> {t('eval.downloadReport')}
+              </button>
+              {recording && runner === 'ai' && (
+                <button onClick={() => downloadText(`recording_${recording.provider}_${recording.taxonomy}.json`, JSON.stringify(recording, null, 2), 'application/json')} className="text-slate-400 hover:text-slate-700 p-1.5 flex items-center gap-1 text-[10px] font-bold">
+                  <Download size={12} /> {t('eval.downloadRecording')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* 分類先ごとの適合率・再現率 */}
+          <table className="w-full text-[11px]">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="text-left font-normal pb-1">{t('eval.class')}</th>
+                <th className="text-right font-normal pb-1">{t('eval.support')}</th>
+                <th className="text-right font-normal pb-1">{t('eval.precision')}</th>
+                <th className="text-right font-normal pb-1">{t('eval.recall')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.classes.map(c => (
+                <tr key={c.id} className="border-t border-slate-50">
+                  <td className="py-1 pr-2 text-slate-700">{labelOf(c.id)}</td>
+                  <td className="py-1 text-right text-slate-500">{c.support}</td>
+                  <td className="py-1 text-right text-slate-700">{percent(c.precision)}</td>
+                  <td className="py-1 text-right text-slate-700">{percent(c.recall)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* 混同行列（行: 正解、列: 予測） */}
+          <div className="space-y-1">
+            <div className="text-xs font-bold text-slate-600">{t('eval.confusion')}</div>
+            <div className="overflow-x-auto">
+              <table className="text-[10px] border-collapse">
+                <thead>
+                  <tr>
+                    <th />
+                    {report.labels.map((id, i) => (
+                      <th key={id} title={labelOf(id)} className="w-6 font-normal text-slate-400">{id === UNMAPPED ? '—' : i + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.confusion.map((row, i) => (
+                    <tr key={report.labels[i]}>
+                      <th className="text-left font-normal text-slate-500 pr-2 whitespace-nowrap">{i + 1}. {labelOf(report.labels[i])}</th>
+                      {row.map((n, j) => (
+                        <td
+                          key={j}
+                          className={`w-6 h-6 text-center border border-white ${n === 0 ? 'text-slate-200' : i === j ? 'bg-emerald-100 text-emerald-800 font-bold' : 'bg-red-50 text-red-600'}`}
+                        >
+                          {n}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* 誤分類の一覧 */}
+          <details className="text-[11px]">
+            <summary className="cursor-pointer font-bold text-slate-600">
+              {t('eval.misses', { count: report.predictions.filter(p => p.predicted !== p.expected).length })}
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {report.predictions.filter(p => p.predicted !== p.expected).map(p => (
+                <li key={p.caseId} className="text-slate-600">
+                  <span className="text-slate-400">{p.caseId}</span> {p.text}
+                  <div className="text-[10px]">
+                    <span className="text-emerald-700">{labelOf(p.expected)}</span>
+                    <span className="text-slate-400"> → </span>
+                    <span className="text-red-600">{p.predicted ? labelOf(p.predicted) : p.error ?? t('eval.unmapped')}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,41 @@
+import { FileText, FileDown, FileCode, FileJson } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+import type { ExportFormat } from '../lib/exporters'
+import { EXPORT_FORMATS } from '../lib/exporters'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+};
+
+const FORMAT_ICONS: Record<ExportFormat, LucideIcon> = {
+  pdf: FileDown,
+  markdown: FileCode,
+  word: FileText,
+  json: FileJson,
+};
+
+export default function ExportMenu({ onExport, disabled }: Props) {
+  const t = useI18n();
+  return (
+    <div className="bg-white border border-slate-100 rounded-2xl p-4 mb-4 space-y-3 shadow-sm">
+      <div className="text-xs font-bold text-slate-500">{t('export.title')}</div>
+      <div className="grid grid-cols-4 gap-2">
+        {EXPORT_FORMATS.map(format => {
+          const Icon = FORMAT_ICONS[format.id];
+          return (
+            <button
+              key={format.id}
+              onClick={() => onExport(format.id)}
+              disabled={disabled}
+              className="bg-slate-50 hover:bg-slate-100 disabled:opacity-40 border border-slate-200 rounded-xl py-3 px-1 text-[10px] leading-tight text-center font-bold text-slate-600 flex flex-col items-center gap-1"
+            >
+              <Icon size={16} /> {t(`export.${format.id}` as const)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, History, Copy, Trash2, FolderOpen, GitCompare, Cpu, Zap } from 'lucide-react'
+import type { SavedSession } from '../lib/history'
+import { listSessions, putSession, deleteSession, duplicateSession, compareSessions } from '../lib/history'
+import type { Locale } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  onOpen: (session: SavedSession) => void;
+  onClose: () => void;
+  locale: Locale;
+};
+
+const formatDate = (time: number, locale: Locale) =>
+  new Date(time).toLocaleString(locale === 'ja' ? 'ja-JP' : 'en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function HistoryScreen({ onOpen, onClose, locale }: Props) {
+  const t = useI18n();
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [error, setError] = useState<{ key: 'history.loadFailed' | 'history.updateFailed'; message: string } | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const reload = () =>
+    listSessions()
+      .then(setSessions)
+      .catch((e: Error) => setError({ key: 'history.loadFailed', message: e.message }));
+
+  // 保存・削除に失敗したら読み込み失敗と同じく画面に表示する
+  const update = (action: () => Promise<unknown>) =>
+    action()
+      .then(() => {
+        setError(null);
+        return reload();
+      })
+      .catch((e: Error) => setError({ key: 'history.updateFailed', message: e.message }));
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const rename = (session: SavedSession, title: string) => {
+    if (!title.trim() || title === session.title) return;
+    update(() => putSession({ ...session, title: title.trim(), updatedAt: Date.now() }));
+  };
+
+  const duplicate = (session: SavedSession) => update(() => putSession(duplicateSession(session, t('history.copySuffix'))));
+
+  const remove = (session: SavedSession) => {
+    if (!confirm(t('history.confirmDelete', { title: session.title }))) return;
+    update(async () => {
+      await deleteSession(session.id);
+      setCompareIds(ids => ids.filter(id => id !== session.id));
+    });
+  };
+
+  // 比較は2件まで。3件目を選ぶと古い方を外す
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id].slice(-2)));
+  };
+
+  const [left, right] = compareIds.map(id => sessions?.find(s => s.id === id));
+
+  return (
+    <motion.div
+      key="history"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="w-full max-w-md mx-auto space-y-6"
+    >
+      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><History size={20} /> {t('history.title')}</h2>
+          <p className="text-xs text-slate-500 mt-1">{t('history.subtitle')}</p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <ArrowLeft size={14} /> {t('common.back')}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-500 font-bold">{t(error.key, { message: error.message })}</p>}
+      {sessions && sessions.length === 0 && (
+        <p className="text-xs text-slate-400 text-center py-12">{t('history.empty')}</p>
+      )}
+
+      <div className="space-y-3">
+        {sessions?.map(session => (
+          <div key={session.id} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
+            <div className="flex gap-2 items-center">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(session.id)}
+                onChange={() => toggleCompare(session.id)}
+                title={t('history.selectCompare')}
+                className="shrink-0"
+              />
+              <input
+                key={session.title}
+                defaultValue={session.title}
+                onBlur={(e) => rename(session, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="flex-1 min-w-0 text-sm font-bold text-slate-800 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-slate-400 outline-none"
+              />
+            </div>
+            <div className="text-[10px] text-slate-400 flex flex-wrap gap-x-3 gap-y-1 items-center">
+              <span>{formatDate(session.updatedAt, locale)}</span>
+              <span className="flex items-center gap-1">
+                {session.mode === 'ai' ? <Cpu size={10} /> : <Zap size={10} />}
+                {session.mode === 'ai' ? `${session.provider} / ${session.model}` : t('history.dictionary', { name: session.dictionary ?? '' })}
+              </span>
+              <span>{t('history.count', { count: session.inputs.length })}</span>
+            </div>
+            <div className="flex gap-2 pt-1">
+              <button onClick={() => onOpen(session)} className="flex-1 text-xs font-bold bg-slate-900 text-white rounded-lg py-2 flex items-center justify-center gap-1">
+                <FolderOpen size={12} /> {t('history.open')}
+              </button>
+              <button onClick={() => duplicate(session)} title={t('common.duplicate')} className="text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-lg px-3"><Copy size={14} /></button>
+              <button onClick={() => remove(session)} title={t('common.delete')} className="text-red-500 border border-red-100 hover:bg-red-50 rounded-lg px-3"><Trash2 size={14} /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 2件の経歴書を知識エリア別に比較 */}
+      {left && right && (
+        <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+          <div className="text-xs font-bold text-slate-600 flex items-center gap-1"><GitCompare size={14} /> {t('history.compare')}</div>
+          <table className="w-full text-[11px]">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-normal pb-1">{t('history.skill')}</th>
+                <th className="text-right font-normal pb-1 max-w-[80px] truncate">{left.title}</th>
+                <th className="text-right font-normal pb-1 max-w-[80px] truncate">{right.title}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {compareSessions(left, right, locale).map(row => (
+                <tr key={row.key} className="border-t border-slate-50">
+                  <td className="py-1 text-slate-700">{row.label}</td>
+                  <td className="py-1 text-right font-bold">{row.left}</td>
+                  <td className={`py-1 text-right font-bold ${row.right > row.left ? 'text-emerald-600' : row.right < row.left ? 'text-red-500' : ''}`}>{row.right}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
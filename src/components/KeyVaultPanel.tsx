@@ -0,0 +1,171 @@
+import { useState } from 'react'
+import { Lock, Unlock, Plus, Trash2, Loader2, KeyRound } from 'lucide-react'
+import type { ProviderId } from '../lib/providers'
+import type { KeyVaultState } from '../lib/keyVault'
+import { AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH } from '../lib/keyVault'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  vault: KeyVaultState;
+  provider: ProviderId;
+};
+
+const inputClass = 'w-full bg-white border border-indigo-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-indigo-500 outline-none';
+
+// 合言葉で暗号化した APIキーの保管庫（作成・解錠・キーの追加と選択）
+export default function KeyVaultPanel({ vault, provider }: Props) {
+  const t = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [keyName, setKeyName] = useState('');
+  const [secret, setSecret] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // 鍵の導出に時間がかかるため、処理中は入力を止める
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(t('vault.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+    if (passphrase !== confirmation) return setError(t('vault.mismatch'));
+    run(() => vault.create(passphrase));
+  };
+
+  const unlock = () =>
+    passphrase && run(async () => {
+      try {
+        await vault.unlock(passphrase);
+      } catch {
+        throw new Error(t('vault.wrongPassphrase'));
+      }
+    });
+
+  const addKey = () => {
+    if (!keyName.trim() || !secret) return;
+    run(async () => {
+      await vault.addKey(provider, keyName.trim(), secret);
+      setKeyName('');
+      setSecret('');
+    });
+  };
+
+  const reset = () => {
+    if (confirm(t('vault.confirmReset'))) vault.reset();
+  };
+
+  const spinner = busy && <Loader2 size={12} className="animate-spin" />;
+
+  // 保管庫がまだない
+  if (!vault.vault) {
+    return (
+      <div className="space-y-2">
+        <p className="text-[10px] text-slate-500 ml-1">{t('vault.createNote')}</p>
+        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder={t('vault.passphrase')} autoComplete="new-password" className={inputClass} />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && create()}
+          placeholder={t('vault.confirmPassphrase')}
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <button onClick={create} disabled={busy} className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-xl py-2 text-xs font-bold flex items-center justify-center gap-1">
+          {spinner || <KeyRound size={12} />} {t('vault.create')}
+        </button>
+        {error && <p className="text-[10px] text-red-500 font-bold ml-1">{error}</p>}
+      </div>
+    );
+  }
+
+  // 施錠中
+  if (!vault.unlocked) {
+    return (
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlock()}
+            placeholder={t('vault.passphrase')}
+            autoComplete="current-password"
+            className={`${inputClass} flex-1`}
+          />
+          <button onClick={unlock} disabled={busy || !passphrase} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-xl px-3 text-xs font-bold flex items-center gap-1 shrink-0">
+            {spinner || <Unlock size={12} />} {t('vault.unlock')}
+          </button>
+        </div>
+        {error && <p className="text-[10px] text-red-500 font-bold ml-1">{error}</p>}
+        <button onClick={reset} className="text-[10px] text-slate-400 hover:text-red-500 ml-1">{t('vault.forgot')}</button>
+      </div>
+    );
+  }
+
+  const keys = vault.vault.keys.filter(k => k.provider === provider);
+  const selected = vault.vault.selected[provider];
+
+  return (
+    <div className="space-y-2">
+      {keys.length === 0 && <p className="text-[10px] text-slate-500 ml-1">{t('vault.noKeys')}</p>}
+      {keys.map(k => (
+        <label key={k.id} className="flex items-center gap-2 bg-white border border-indigo-100 rounded-xl px-3 py-2 text-xs">
+          <input type="radio" name={`vault-${provider}`} checked={selected === k.id} onChange={() => vault.select(provider, k.id)} />
+          <span className="flex-1 min-w-0 truncate font-bold text-slate-700">{k.name}</span>
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              if (confirm(t('vault.confirmDelete', { name: k.name }))) vault.removeKey(k.id);
+            }}
+            title={t('common.delete')}
+            className="text-slate-300 hover:text-red-500"
+          >
+            <Trash2 size={12} />
+          </button>
+        </label>
+      ))}
+
+      {/* キーの追加 */}
+      <div className="flex gap-2">
+        <input value={keyName} onChange={(e) => setKeyName(e.target.value)} placeholder={t('vault.keyName')} className={`${inputClass} w-28 shrink-0`} />
+        <input
+          type="password"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addKey()}
+          placeholder={t('provider.apiKeyPlaceholder')}
+          autoComplete="off"
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        <button onClick={addKey} disabled={busy || !keyName.trim() || !secret} title={t('vault.addKey')} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-xl px-3 shrink-0">
+          {spinner || <Plus size={14} />}
+        </button>
+      </div>
+      {error && <p className="text-[10px] text-red-500 font-bold ml-1">{error}</p>}
+
+      <div className="flex justify-between items-center text-[10px] text-slate-500 ml-1">
+        <label className="flex items-center gap-1">
+          {t('vault.autoLock')}
+          <select value={vault.autoLockMinutes} onChange={(e) => vault.setAutoLock(Number(e.target.value))} className="bg-white border border-indigo-100 rounded-lg px-1 py-0.5">
+            {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{t('vault.minutes', { count: m })}</option>)}
+          </select>
+        </label>
+        <button onClick={vault.lock} className="font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+          <Lock size={12} /> {t('vault.lock')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { CloudUpload, Trash2, Cpu } from 'lucide-react'
+import type { QueuedTaskList } from '../lib/offline'
+import { TAXONOMIES, taxonomyName } from '../lib/taxonomy'
+import type { Locale } from '../lib/i18n'
+import { LOCALES, useI18n } from '../lib/i18n'
+
+type Props = {
+  queue: QueuedTaskList[];
+  locale: Locale;
+  // 通信できない、または APIキーが未入力なら変換できない
+  canTranslate: boolean;
+  onTranslate: (item: QueuedTaskList) => void;
+  onDelete: (id: string) => void;
+};
+
+const formatDate = (time: number, locale: Locale) =>
+  new Date(time).toLocaleString(locale === 'ja' ? 'ja-JP' : 'en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+// オフライン中に保留した業務の一覧（接続が戻ったら AI で変換する）
+export default function OfflineQueuePanel({ queue, locale, canTranslate, onTranslate, onDelete }: Props) {
+  const t = useI18n();
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 space-y-2 text-left shadow-sm">
+      <div className="text-xs font-bold text-amber-800 flex items-center gap-2">
+        <CloudUpload size={16} /> {t('offline.queueTitle', { count: queue.length })}
+      </div>
+      <p className="text-[10px] text-amber-700">{t(canTranslate ? 'offline.queueReady' : 'offline.queueWaiting')}</p>
+      {queue.map(item => (
+        <div key={item.id} className="bg-white rounded-xl border border-amber-100 px-3 py-2 flex gap-2 items-center">
+          <div className="flex-1 min-w-0">
+            <div className="text-xs font-bold text-slate-700 truncate">{item.tasks[0]?.text}</div>
+            <div className="text-[10px] text-slate-400">
+              {formatDate(item.createdAt, locale)} · {t('history.count', { count: item.tasks.length })} · {taxonomyName(TAXONOMIES[item.taxonomy], locale)} · {LOCALES.find(l => l.id === item.language)?.label}
+            </div>
+          </div>
+          <button
+            onClick={() => onTranslate(item)}
+            disabled={!canTranslate}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white rounded-lg px-3 py-1.5 text-xs font-bold flex items-center gap-1 shrink-0"
+          >
+            <Cpu size={12} /> {t('offline.translate')}
+          </button>
+          <button
+            onClick={() => confirm(t('offline.confirmDelete')) && onDelete(item.id)}
+            title={t('common.delete')}
+            className="text-slate-300 hover:text-red-500 p-1"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useRef } from 'react'
+import { Play, Loader2, Save, Trash2, Download, Upload, RotateCcw, X } from 'lucide-react'
+import type { Task, DebugLog } from '../types'
+import type { AIContext } from '../lib/ai'
+import type { Locale } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+import type { TaxonomyId } from '../lib/taxonomy'
+import type { PromptVersion, PlaygroundRun, PromptPreset } from '../lib/playground'
+import {
+  buildFewShotExamples, defaultPromptVersion, runPrompt, loadPresets, savePresets, upsertPreset, exportPresetsJson, importPresetsJson, PresetFormatError
+} from '../lib/playground'
+import { downloadText } from '../lib/download'
+
+type Props = {
+  tasks: Task[];
+  debugLogs: Record<string, DebugLog>;
+  language: Locale;
+  taxonomy: TaxonomyId;
+  defaultModel: string;
+  // APIキーが未入力なら null
+  createContext: () => AIContext | null;
+};
+
+const pretty = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+
+// 「v2」のような名前は実行のたびに番号を進める
+const nextName = (name: string) => {
+  const match = /^v(\d+)$/.exec(name);
+  return match ? `v${Number(match[1]) + 1}` : name;
+};
+
+const Raw = ({ label, value }: { label: string; value: unknown }) => (
+  <details>
+    <summary className="cursor-pointer text-slate-500">{label}</summary>
+    <pre className="text-slate-300 whitespace-pre-wrap break-all bg-slate-950 p-2 rounded border border-slate-800 max-h-64 overflow-y-auto">{pretty(value)}</pre>
+  </details>
+);
+
+// デバッグビュー: 実行ログの確認と、プロンプトを書き換えての再実行（研修用）
+export default function PromptPlayground({ tasks, debugLogs, language, taxonomy, defaultModel, createContext }: Props) {
+  const t = useI18n();
+  const examples = buildFewShotExamples(taxonomy, language);
+  const [taskId, setTaskId] = useState(tasks[0]?.id ?? '');
+  const [version, setVersion] = useState<PromptVersion>(() => defaultPromptVersion(language, taxonomy));
+  const [runs, setRuns] = useState<PlaygroundRun[]>([]);
+  const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const task = tasks.find(item => item.id === taskId) ?? tasks[0];
+
+  const updatePresets = (next: PromptPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const run = async () => {
+    const ctx = createContext();
+    if (!ctx) return setError(t('playground.noApiKey'));
+    if (!task) return;
+    setError('');
+    setRunning(true);
+    try {
+      const result = await runPrompt(task.text, version, ctx);
+      setRuns(prev => [...prev, result]);
+      setVersion(v => ({ ...v, name: nextName(v.name) }));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const toggleExample = (id: string) =>
+    setVersion(v => ({ ...v, examples: v.examples.includes(id) ? v.examples.filter(x => x !== id) : [...v.examples, id] }));
+
+  const importPresets = async (file: File) => {
+    try {
+      updatePresets(importPresetsJson(await file.text(), presets));
+      setError('');
+    } catch (e) {
+      const message = e instanceof PresetFormatError ? t('playground.invalidPresets') : e instanceof Error ? e.message : String(e);
+      setError(t('playground.importFailed', { message }));
+    }
+  };
+
+  const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200';
+
+  return (
+    <div className="p-4 bg-slate-900 text-green-400 text-[10px] font-mono space-y-4 overflow-x-auto">
+      {/* 実行ログ */}
+      {tasks.map(item => debugLogs[item.id]).map((log, i) => log && (
+        <div key={i} className="space-y-1 border-b border-slate-800 pb-4">
+          <div className="text-slate-500"># Task {i + 1} Analysis</div>
+          <div><span className="text-blue-400">Input:</span> "{log.input}"</div>
+          <details>
+            <summary className="cursor-pointer"><span className="text-purple-400">System Prompt</span></summary>
+            <pre className="text-slate-400 whitespace-pre-wrap break-all">{log.prompt.trim()}</pre>
+          </details>
+          <div>
+            <span className="text-yellow-400">AI Response (JSON):</span>
+            {log.attempts !== undefined && log.attempts > 1 && <span className="text-slate-500"> ({log.attempts} attempts)</span>}
+          </div>
+          <pre className="text-slate-300 whitespace-pre-wrap break-all bg-slate-950 p-2 rounded border border-slate-800">
+            {log.response}
+          </pre>
+        </div>
+      ))}
+      <div className="text-slate-500 text-center">--- End of Stream ---</div>
+
+      {/* プロンプトの実験場 */}
+      <div className="space-y-2 border-t border-slate-800 pt-4">
+        <div className="text-slate-500"># {t('playground.title')}</div>
+        <p className="text-slate-500">{t('playground.intro')}</p>
+
+        <label className="flex items-center gap-2">
+          <span className="text-blue-400 shrink-0">{t('playground.task')}</span>
+          <select value={task?.id ?? ''} onChange={(e) => setTaskId(e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+            {tasks.map(item => <option key={item.id} value={item.id}>{item.text}</option>)}
+          </select>
+        </label>
+
+        {/* プリセット */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input value={version.name} onChange={(e) => setVersion({ ...version, name: e.target.value })} placeholder={t('playground.name')} className={`${inputClass} w-28`} />
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) setVersion({ name: preset.name, system: preset.system, examples: preset.examples, temperature: preset.temperature, model: preset.model });
+            }}
+            className={inputClass}
+          >
+            <option value="" disabled>{t('playground.loadPreset')}</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={() => version.name.trim() && updatePresets(upsertPreset(presets, { ...version, name: version.name.trim() }))} title={t('playground.savePreset')} className="text-slate-400 hover:text-white flex items-center gap-1">
+            <Save size={12} /> {t('playground.savePreset')}
+          </button>
+          {presets.some(p => p.name === version.name) && (
+            <button onClick={() => updatePresets(presets.filter(p => p.name !== version.name))} title={t('playground.deletePreset')} className="text-slate-400 hover:text-red-400">
+              <Trash2 size={12} />
+            </button>
+          )}
+          <button onClick={() => downloadText('prompt-presets.json', exportPresetsJson(presets), 'application/json')} disabled={presets.length === 0} title={t('playground.exportPresets')} className="text-slate-400 hover:text-white disabled:opacity-30">
+            <Download size={12} />
+          </button>
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importPresets(file);
+            e.target.value = '';
+          }} />
+          <button onClick={() => fileRef.current?.click()} title={t('playground.importPresets')} className="text-slate-400 hover:text-white">
+            <Upload size={12} />
+          </button>
+        </div>
+
+        {/* システムプロンプト */}
+        <div className="flex justify-between items-center">
+          <span className="text-purple-400">System Prompt</span>
+          <button onClick={() => setVersion({ ...version, system: defaultPromptVersion(language, taxonomy).system })} className="text-slate-500 hover:text-white flex items-center gap-1">
+            <RotateCcw size={10} /> {t('playground.resetPrompt')}
+          </button>
+        </div>
+        <textarea
+          value={version.system}
+          onChange={(e) => setVersion({ ...version, system: e.target.value })}
+          rows={12}
+          className={`${inputClass} w-full leading-relaxed`}
+        />
+
+        {/* 例示（few-shot） */}
+        <div className="space-y-1">
+          <span className="text-purple-400">{t('playground.examples')}</span>
+          {examples.map(e => (
+            <label key={e.id} className="flex items-start gap-2 text-slate-300">
+              <input type="checkbox" checked={version.examples.includes(e.id)} onChange={() => toggleExample(e.id)} className="mt-0.5" />
+              <span>{e.input} <span className="text-slate-500">→ {e.output}</span></span>
+            </label>
+          ))}
+        </div>
+
+        {/* 温度・モデル */}
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={version.temperature !== undefined}
+              onChange={(e) => setVersion({ ...version, temperature: e.target.checked ? 0.7 : undefined })}
+            />
+            <span className="text-slate-300">{t('playground.temperature')}</span>
+          </label>
+          {version.temperature !== undefined ? (
+            <>
+              <input type="range" min={0} max={2} step={0.1} value={version.temperature} onChange={(e) => setVersion({ ...version, temperature: Number(e.target.value) })} />
+              <span className="text-slate-200 w-6">{version.temperature.toFixed(1)}</span>
+            </>
+          ) : (
+            <span className="text-slate-500">{t('playground.providerDefault')}</span>
+          )}
+          <label className="flex items-center gap-1">
+            <span className="text-slate-300">{t('playground.model')}</span>
+            <input value={version.model ?? ''} onChange={(e) => setVersion({ ...version, model: e.target.value || undefined })} placeholder={defaultModel} className={`${inputClass} w-40`} />
+          </label>
+        </div>
+
+        <button onClick={run} disabled={running || !task} className="bg-green-600 hover:bg-green-500 disabled:bg-slate-700 text-white rounded px-3 py-1.5 font-bold flex items-center gap-1">
+          {running ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} {t('playground.run')}
+        </button>
+        {error && <p className="text-red-400">{error}</p>}
+      </div>
+
+      {/* 実行結果を横に並べて比べる */}
+      {runs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-slate-500"># {t('playground.runs')}</span>
+            <button onClick={() => setRuns([])} className="text-slate-500 hover:text-white">{t('playground.clearRuns')}</button>
+          </div>
+          <div className="grid grid-flow-col auto-cols-[minmax(240px,1fr)] gap-3 overflow-x-auto pb-2">
+            {runs.map(r => (
+              <div key={r.id} className="bg-slate-950 border border-slate-800 rounded p-2 space-y-1 min-w-0">
+                <div className="flex justify-between items-start">
+                  <span className="text-white font-bold">{r.version.name}</span>
+                  <button onClick={() => setRuns(prev => prev.filter(x => x.id !== r.id))} title={t('common.delete')} className="text-slate-600 hover:text-white"><X size={10} /></button>
+                </div>
+                <div className="text-slate-500">
+                  {r.version.model || defaultModel} · T={r.version.temperature?.toFixed(1) ?? '-'} · {t('playground.exampleCount', { count: r.version.examples.length })}
+                </div>
+                <div className="text-slate-400">
+                  {r.latencyMs} ms · {t('playground.tokens', { input: r.usage?.input ?? '-', output: r.usage?.output ?? '-' })}
+                </div>
+                {r.result && (
+                  <div className="text-green-300">
+                    <div className="font-bold">{r.result.label}</div>
+                    <div>{r.result.text}</div>
+                  </div>
+                )}
+                {r.errors && <ul className="text-amber-400 list-disc pl-4">{r.errors.map((e, i) => <li key={i}>{e}</li>)}</ul>}
+                {r.error && <p className="text-red-400">{r.error}</p>}
+                <Raw label={t('playground.rawRequest')} value={r.request ?? r.input} />
+                <Raw label={t('playground.rawResponse')} value={r.response ?? r.content ?? r.error ?? ''} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { Key, Trash2, Server, Gauge } from 'lucide-react'
+import type { ProviderId, ProviderSettings } from '../lib/providers'
+import { PROVIDERS } from '../lib/providers'
+import type { KeyStorageMode, KeyVaultState } from '../lib/keyVault'
+import type { RunnerSettings } from '../lib/batchRunner'
+import { RUNNER_LIMITS, clampRunnerSetting } from '../lib/batchRunner'
+import type { MessageKey } from '../lib/messages'
+import { useI18n } from '../lib/i18n'
+import KeyVaultPanel from './KeyVaultPanel'
+
+// 実行設定の入力欄（入力できる範囲は RUNNER_LIMITS）
+const RUNNER_FIELDS: { key: keyof RunnerSettings; label: MessageKey }[] = [
+  { key: 'concurrency', label: 'provider.concurrency' },
+  { key: 'maxRetries', label: 'provider.maxRetries' },
+  { key: 'timeoutSec', label: 'provider.timeoutSec' },
+];
+
+const KEY_STORAGE_MODES: { id: KeyStorageMode; label: MessageKey }[] = [
+  { id: 'tab', label: 'provider.keyStorage.tab' },
+  { id: 'vault', label: 'provider.keyStorage.vault' },
+];
+
+type Props = {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  apiKey: string;
+  onApiKeyChange: (key: string) => void;
+  onApiKeyClear: () => void;
+  keyStorage: KeyStorageMode;
+  onKeyStorageChange: (mode: KeyStorageMode) => void;
+  vault: KeyVaultState;
+  runnerSettings: RunnerSettings;
+  onRunnerSettingsChange: (settings: RunnerSettings) => void;
+};
+
+export default function ProviderSettingsPanel({
+  settings, onChange, apiKey, onApiKeyChange, onApiKeyClear, keyStorage, onKeyStorageChange, vault, runnerSettings, onRunnerSettingsChange
+}: Props) {
+  const t = useI18n();
+  const provider = PROVIDERS[settings.active];
+  const config = settings.configs[settings.active];
+
+  const updateConfig = (patch: Partial<typeof config>) => {
+    onChange({ ...settings, configs: { ...settings.configs, [settings.active]: { ...config, ...patch } } });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* プロバイダ選択 */}
+      <div className="grid grid-cols-2 gap-1.5">
+        {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange({ ...settings, active: id })}
+            className={`py-2 rounded-xl text-xs font-bold transition-all ${settings.active === id ? 'bg-indigo-600 text-white shadow-sm' : 'bg-white text-slate-500 border border-indigo-100 hover:text-indigo-600'}`}
+          >
+            {t(`provider.${id}.name` as const)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 ml-1">{t(`provider.${provider.id}.description` as const)}</p>
+
+      {/* 接続先 */}
+      {provider.id !== 'mock' && (
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-slate-500 ml-1 flex items-center gap-1">
+            <Server size={12} /> {t('provider.endpoint')}
+          </label>
+          <input
+            value={config.baseUrl}
+            onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+            placeholder={provider.defaults.baseUrl}
+            className="w-full bg-white border border-indigo-200 rounded-xl px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <input
+            value={config.model}
+            onChange={(e) => updateConfig({ model: e.target.value })}
+            placeholder={provider.defaults.model}
+            className="w-full bg-white border border-indigo-200 rounded-xl px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+      )}
+
+      {/* APIキー */}
+      {provider.id !== 'mock' && provider.id !== 'ollama' && (
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-slate-500 ml-1 flex items-center gap-1">
+            <Key size={12} /> {t(provider.requiresApiKey ? 'provider.apiKeyLabel' : 'provider.apiKeyLabelOptional', { name: t(`provider.${provider.id}.name` as const) })}
+          </label>
+          <div className="flex gap-1">
+            {KEY_STORAGE_MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => onKeyStorageChange(m.id)}
+                className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold transition-all ${keyStorage === m.id ? 'bg-indigo-100 text-indigo-700' : 'bg-white text-slate-400 border border-indigo-50 hover:text-indigo-600'}`}
+              >
+                {t(m.label)}
+              </button>
+            ))}
+          </div>
+          {keyStorage === 'vault' ? (
+            <KeyVaultPanel vault={vault} provider={provider.id} />
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => onApiKeyChange(e.target.value)}
+                  placeholder={t('provider.apiKeyPlaceholder')}
+                  className="flex-1 bg-white border border-indigo-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none transition-shadow"
+                />
+                {apiKey && (
+                  <button
+                    onClick={onApiKeyClear}
+                    className="bg-white text-red-500 border border-red-100 hover:bg-red-50 rounded-xl px-3 py-2 flex items-center justify-center transition-colors shadow-sm"
+                    title={t('provider.apiKeyClear')}
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+              {/* 共用PC向けの注意書き */}
+              <p className="text-[10px] text-red-500 font-bold flex items-center gap-1 ml-1">
+                ⚠️ {t('provider.sharedPcWarning')}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* 実行設定（429 対策の同時実行数・リトライ・タイムアウト） */}
+      <div className="space-y-2">
+        <label className="text-xs font-bold text-slate-500 ml-1 flex items-center gap-1">
+          <Gauge size={12} /> {t('provider.runnerSettings')}
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {RUNNER_FIELDS.map(({ key, label }) => (
+            <label key={key} className="space-y-1">
+              <span className="text-[10px] text-slate-500 block">{t(label)}</span>
+              <input
+                type="number"
+                min={RUNNER_LIMITS[key].min}
+                max={RUNNER_LIMITS[key].max}
+                value={runnerSettings[key]}
+                onChange={(e) => onRunnerSettingsChange({ ...runnerSettings, [key]: clampRunnerSetting(key, e.target.value) })}
+                className="w-full bg-white border border-indigo-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ShieldCheck, ChevronDown, ChevronUp } from 'lucide-react'
+import type { Task } from '../types'
+import type { RedactionSettings } from '../lib/redaction'
+import { REDACTION_RULES, redactText } from '../lib/redaction'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  tasks: Task[];
+};
+
+export default function RedactionPanel({ settings, onChange, tasks }: Props) {
+  const t = useI18n();
+  const [open, setOpen] = useState(false);
+  const previews = tasks.map(task => ({ task, redaction: redactText(task.text, settings) }));
+  const total = previews.reduce((sum, p) => sum + p.redaction.matches.length, 0);
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-2xl shadow-sm overflow-hidden">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between p-4 text-xs font-bold text-slate-600 hover:bg-slate-50">
+        <span className="flex items-center gap-2">
+          <ShieldCheck size={14} className={settings.enabled ? 'text-green-600' : 'text-slate-300'} />
+          {settings.enabled ? t('redaction.summary', { count: total }) : t('redaction.off')}
+        </span>
+        {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div initial={{ height: 0 }} animate={{ height: 'auto' }} exit={{ height: 0 }} className="overflow-hidden">
+            <div className="px-4 pb-4 space-y-3">
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+                {t('redaction.enable')}
+              </label>
+              <div className="grid grid-cols-2 gap-1">
+                {REDACTION_RULES.map(rule => (
+                  <label key={rule.id} className={`flex items-center gap-1 text-[10px] ${settings.enabled ? 'text-slate-600' : 'text-slate-300'}`}>
+                    <input
+                      type="checkbox"
+                      disabled={!settings.enabled}
+                      checked={settings.rules[rule.id]}
+                      onChange={(e) => onChange({ ...settings, rules: { ...settings.rules, [rule.id]: e.target.checked } })}
+                    />
+                    {t(`redaction.rule.${rule.id}` as const)}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <span className="text-[10px] font-bold text-slate-500">{t('redaction.blocklist')}</span>
+                <textarea
+                  key={settings.blocklist.join('\n')}
+                  defaultValue={settings.blocklist.join('\n')}
+                  onBlur={(e) => onChange({ ...settings, blocklist: e.target.value.split('\n').map(term => term.trim()).filter(Boolean) })}
+                  rows={2}
+                  disabled={!settings.enabled}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-slate-400 outline-none"
+                />
+              </div>
+
+              {/* 実際に送信される内容（削除部分と置き換え後を並べて表示） */}
+              {previews.length > 0 && (
+                <div className="space-y-1">
+                  <span className="text-[10px] font-bold text-slate-500">{t('redaction.preview')}</span>
+                  <div className="max-h-48 overflow-y-auto bg-slate-50 border border-slate-100 rounded-lg p-2 space-y-1 text-[11px] leading-relaxed">
+                    {previews.map(({ task, redaction }) => (
+                      <p key={task.id} className="break-all text-slate-700">
+                        {redaction.segments.map((segment, i) => segment.match ? (
+                          <span key={i}>
+                            <del className="bg-red-50 text-red-400">{segment.text}</del>
+                            <ins className="bg-emerald-50 text-emerald-700 no-underline font-bold">{segment.match.placeholder}</ins>
+                          </span>
+                        ) : (
+                          <span key={i}>{segment.text}</span>
+                        ))}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { Loader2, Briefcase, Pencil, RotateCcw, Check, X, ListChecks } from 'lucide-react'
+import type { SkillCategory, ResultSource, AreaOption, AchievementContext } from '../types'
+import type { JobStatus } from '../lib/batchRunner'
+import { ICON_MAP, isIconKey } from '../lib/icons'
+import type { Locale } from '../lib/i18n'
+import type { MessageKey } from '../lib/messages'
+import { useI18n, translate } from '../lib/i18n'
+import StarBulletEditor from './StarBulletEditor'
+
+// AIモードでカードを生成した経路の表示
+const SOURCE_BADGES: Partial<Record<ResultSource, { label: MessageKey; className: string }>> = {
+  ai: { label: 'result.source.ai', className: 'bg-indigo-50 text-indigo-600' },
+  repaired: { label: 'result.source.repaired', className: 'bg-amber-50 text-amber-600' },
+  fallback: { label: 'result.source.fallback', className: 'bg-slate-100 text-slate-500' },
+  manual: { label: 'result.source.manual', className: 'bg-emerald-50 text-emerald-600' },
+};
+
+type Props = {
+  result: SkillCategory;
+  input: string;
+  isLast: boolean;
+  areaOptions: AreaOption[];
+  onChange: (result: SkillCategory) => void;
+  onRerun: () => void;
+  disabled?: boolean;
+  readOnly?: boolean; // 共有リンクで開いた経歴書は操作を表示しない
+  language: Locale; // 経歴書の出力言語（カード内の見出しに使う）
+  achievement: AchievementContext;
+  onGenerateBullets: (achievement: AchievementContext) => Promise<void>;
+};
+
+// 利用者が手を加えたカードは自動判定の確信度・次点を表示しない
+const asManual = (result: SkillCategory, patch: Partial<SkillCategory>): SkillCategory => ({
+  ...result,
+  ...patch,
+  source: 'manual',
+  isError: false,
+  confidence: undefined,
+  secondary: undefined,
+  runnersUp: undefined,
+});
+
+export default function ResultCard({ result, input, isLast, areaOptions, onChange, onRerun, disabled, readOnly, language, achievement, onGenerateBullets }: Props) {
+  const t = useI18n();
+  const Icon = isIconKey(result.iconKey) ? ICON_MAP[result.iconKey] : Briefcase;
+  const badge = result.source ? SOURCE_BADGES[result.source] : undefined;
+  const [draft, setDraft] = useState<{ label: string; text: string } | null>(null);
+  const [showBullets, setShowBullets] = useState(false);
+
+  const selectArea = (label: string) => {
+    const option = areaOptions.find(o => o.label === label);
+    if (!option) return;
+    onChange(asManual(result, { label: option.label, areaId: option.id, text: option.text ?? result.text, iconKey: option.iconKey, color: option.color, bg: option.bg }));
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-2 bg-slate-50 p-3 rounded-xl border border-slate-100">
+        <input
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder={t('result.label')}
+          className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+        <textarea
+          value={draft.text}
+          onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+          placeholder={t('result.text')}
+          rows={2}
+          className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setDraft(null)} className="text-xs text-slate-500 flex items-center gap-1 px-2 py-1"><X size={12} /> {t('common.cancel')}</button>
+          <button
+            onClick={() => {
+              // ラベルを書き換えた場合は分類体系のエントリとの対応を外す
+              const label = draft.label.trim();
+              if (label) onChange(asManual(result, { label, text: draft.text.trim(), ...(label !== result.label ? { areaId: undefined } : {}) }));
+              setDraft(null);
+            }}
+            className="text-xs font-bold bg-slate-900 text-white rounded-lg flex items-center gap-1 px-3 py-1"
+          >
+            <Check size={12} /> {t('common.save')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group">
+      <div className="flex gap-4 items-start">
+        <div className={`mt-1 p-2 rounded-xl shrink-0 ${result.bg} ${result.color}`}>
+          <Icon size={20} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className={`text-[10px] font-bold mb-0.5 ${result.color} uppercase tracking-wider flex items-center gap-2`}>
+            {result.label}
+            {result.confidence !== undefined && (
+              <span className="text-slate-400 normal-case tracking-normal">{Math.round(result.confidence * 100)}%</span>
+            )}
+            {badge && (
+              <span className={`normal-case tracking-normal px-1.5 py-0.5 rounded ${badge.className}`}>
+                {t(badge.label)}
+              </span>
+            )}
+          </div>
+          <div className={`text-sm font-bold leading-snug mb-1 ${result.isError ? 'text-red-600' : 'text-slate-700'}`}>
+            {result.text}
+          </div>
+          {result.bullets && result.bullets.length > 0 && (
+            <ul className="list-disc pl-4 mb-1 space-y-0.5 text-xs text-slate-600 leading-relaxed">
+              {result.bullets.map((bullet, i) => <li key={i}>{bullet}</li>)}
+            </ul>
+          )}
+          {result.secondary && (
+            <div className="text-[10px] text-slate-500 mb-1">
+              <span className="font-bold">{translate(language, 'result.secondary')}:</span> {result.secondary.label}
+            </div>
+          )}
+          {result.runnersUp && result.runnersUp.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-1">
+              {result.runnersUp.map(area => (
+                <span key={area.id} className="text-[9px] bg-slate-50 text-slate-500 border border-slate-100 rounded-full px-2 py-0.5">
+                  {area.label} {Math.round(area.confidence * 100)}%
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="text-xs text-slate-400 flex items-center gap-2">
+             <span className="line-through decoration-slate-300 opacity-60 truncate max-w-[200px] inline-block">{input}</span>
+          </div>
+          {/* カード操作（画像保存には含めない） */}
+          {!readOnly && (
+            <div data-html2canvas-ignore className="flex items-center gap-1 mt-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <select
+                value=""
+                onChange={(e) => selectArea(e.target.value)}
+                disabled={disabled}
+                className="text-[10px] bg-slate-50 border border-slate-200 rounded-md px-1 py-0.5 text-slate-500 max-w-[150px]"
+              >
+                <option value="" disabled>{t('result.changeArea')}</option>
+                {areaOptions.map(o => <option key={o.label} value={o.label}>{o.label}</option>)}
+              </select>
+              <button onClick={() => setDraft({ label: result.label, text: result.text })} disabled={disabled} title={t('result.edit')} className="text-slate-400 hover:text-slate-700 p-1 disabled:opacity-30">
+                <Pencil size={12} />
+              </button>
+              <button onClick={onRerun} disabled={disabled} title={t('result.rerun')} className="text-slate-400 hover:text-slate-700 p-1 disabled:opacity-30">
+                <RotateCcw size={12} />
+              </button>
+              {!result.isError && (
+                <button onClick={() => setShowBullets(!showBullets)} title={t('star.open')} className="text-slate-400 hover:text-slate-700 p-1">
+                  <ListChecks size={12} />
+                </button>
+              )}
+            </div>
+          )}
+          {showBullets && (
+            <StarBulletEditor
+              achievement={achievement}
+              bullets={result.bullets ?? []}
+              onGenerate={onGenerateBullets}
+              onSave={(bullets) => onChange({ ...result, bullets })}
+              onClose={() => setShowBullets(false)}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      </div>
+      {!isLast && <div className="h-px bg-slate-50 w-full mt-4 ml-14" />}
+    </div>
+  );
+}
+
+// AIモードで結果がまだ届いていないタスク
+export function PendingCard({ input, status }: { input: string; status: JobStatus }) {
+  const t = useI18n();
+  return (
+    <div className="flex gap-4 items-start animate-pulse">
+      <div className="mt-1 p-2 rounded-xl shrink-0 bg-slate-50 text-slate-400">
+        <Loader2 size={20} className={status === 'pending' ? '' : 'animate-spin'} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-[10px] font-bold mb-0.5 text-slate-400 uppercase tracking-wider">{t(`job.${status}` as const)}</div>
+        <div className="h-4 bg-slate-100 rounded w-3/4 mb-1" />
+        <div className="text-xs text-slate-400 truncate">{input}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Link2, Copy, Check, Loader2, X } from 'lucide-react'
+import type { SharedSession } from '../lib/share'
+import { createShareUrl } from '../lib/share'
+import { MIN_PASSPHRASE_LENGTH } from '../lib/keyVault'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  session: SharedSession;
+  onClose: () => void;
+};
+
+// チャットツールやメールによっては長い URL が途中で切れる
+const LONG_URL = 2000;
+
+// 経歴書を URL に埋め込んだ共有リンクを作る（合言葉を指定すると暗号化する）
+export default function ShareLinkDialog({ session, onClose }: Props) {
+  const t = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [url, setUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const generate = async () => {
+    if (passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(t('vault.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+    setBusy(true);
+    setError('');
+    setCopied(false);
+    try {
+      setUrl(await createShareUrl(session, window.location.href, passphrase));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = () =>
+    navigator.clipboard.writeText(url)
+      .then(() => setCopied(true))
+      .catch((e: Error) => setError(e.message));
+
+  // 条件を変えたら作り直してもらう
+  const updatePassphrase = (value: string) => {
+    setPassphrase(value);
+    setUrl('');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="overflow-hidden"
+    >
+      <div className="bg-white border border-slate-100 rounded-2xl p-4 mb-4 space-y-3 shadow-sm">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-bold text-slate-500 flex items-center gap-2"><Link2 size={14} /> {t('share.title')}</span>
+          <button onClick={onClose} title={t('common.close')} className="text-slate-400 hover:text-slate-700">
+            <X size={14} />
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-500">{t('share.note')}</p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => updatePassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && generate()}
+            placeholder={t('share.passphraseOptional')}
+            autoComplete="new-password"
+            className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button onClick={generate} disabled={busy} className="bg-slate-900 hover:bg-slate-800 disabled:bg-slate-300 text-white rounded-xl px-3 text-xs font-bold flex items-center gap-1 shrink-0">
+            {busy ? <Loader2 size={12} className="animate-spin" /> : <Link2 size={12} />} {t('share.generate')}
+          </button>
+        </div>
+        {url && (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <input readOnly value={url} onFocus={(e) => e.target.select()} className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-[10px] font-mono text-slate-600" />
+              <button onClick={copy} className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl px-3 text-xs font-bold flex items-center gap-1 shrink-0">
+                {copied ? <Check size={12} /> : <Copy size={12} />} {t(copied ? 'share.copied' : 'share.copy')}
+              </button>
+            </div>
+            <p className={`text-[10px] ml-1 ${url.length > LONG_URL ? 'text-amber-600 font-bold' : 'text-slate-400'}`}>
+              {t(url.length > LONG_URL ? 'share.tooLong' : 'share.length', { count: url.length })}
+            </p>
+          </div>
+        )}
+        {error && <p className="text-[10px] text-red-500 font-bold ml-1">{error}</p>}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useEffectEvent } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Link2, Unlock, Loader2 } from 'lucide-react'
+import type { ShareLink, SharedSession, ShareDecodeResult, ShareError } from '../lib/share'
+import { decodeShareLink } from '../lib/share'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  link: ShareLink;
+  onOpen: (session: SharedSession) => void;
+  onClose: () => void;
+};
+
+// 共有リンクを開いたときの画面。暗号化されていなければそのまま結果画面へ進む
+export default function SharedLinkScreen({ link, onOpen, onClose }: Props) {
+  const t = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<ShareError | null>(null);
+
+  const finish = (result: ShareDecodeResult) => (result.ok ? onOpen(result.session) : setError(result.error));
+  const onDecoded = useEffectEvent(finish);
+
+  useEffect(() => {
+    if (!link.encrypted) decodeShareLink(link).then(onDecoded);
+  }, [link]);
+
+  // 鍵の導出に時間がかかるため、処理中は入力を止める
+  const unlock = async () => {
+    if (!passphrase) return;
+    setBusy(true);
+    setError(null);
+    finish(await decodeShareLink(link, passphrase));
+    setBusy(false);
+  };
+
+  return (
+    <motion.div
+      key="shared"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="w-full max-w-md mx-auto space-y-6"
+    >
+      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Link2 size={20} /> {t('share.openTitle')}</h2>
+          <p className="text-xs text-slate-500 mt-1">{t(link.encrypted ? 'share.encryptedNote' : 'share.loading')}</p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <ArrowLeft size={14} /> {t('common.back')}
+        </button>
+      </div>
+
+      {link.encrypted && error !== 'unsupportedVersion' && error !== 'corrupted' && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && unlock()}
+            placeholder={t('share.passphrase')}
+            autoComplete="off"
+            autoFocus
+            className="flex-1 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button onClick={unlock} disabled={busy || !passphrase} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-xl px-4 text-xs font-bold flex items-center gap-1 shrink-0">
+            {busy ? <Loader2 size={12} className="animate-spin" /> : <Unlock size={12} />} {t('share.unlock')}
+          </button>
+        </div>
+      )}
+
+      {!link.encrypted && !error && (
+        <div className="flex justify-center py-12 text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+      )}
+
+      {error && <p className="text-xs text-red-500 font-bold">{t(`share.error.${error}` as const)}</p>}
+    </motion.div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { BarChart3, Radar, Sprout, ChevronDown, ChevronUp } from 'lucide-react'
+import type { Task, SkillCategory } from '../types'
+import type { DictionaryCategory } from '../lib/dictionary'
+import type { WeightMode, AreaCoverage } from '../lib/analytics'
+import { buildSkillProfile, resolveArea } from '../lib/analytics'
+import type { Taxonomy } from '../lib/taxonomy'
+import { entryName, taxonomyName } from '../lib/taxonomy'
+import type { Locale } from '../lib/i18n'
+import type { MessageKey } from '../lib/messages'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  tasks: Task[];
+  results: Record<string, SkillCategory>;
+  categories: DictionaryCategory[];
+  onTasksChange: (tasks: Task[]) => void;
+  readOnly?: boolean; // 共有リンクで開いた経歴書は工数・頻度を編集できない
+  locale: Locale;
+  taxonomy: Taxonomy;
+};
+
+type ChartType = 'radar' | 'bar';
+
+const WEIGHT_MODES: { id: WeightMode; label: MessageKey }[] = [
+  { id: 'count', label: 'dashboard.weight.count' },
+  { id: 'hours', label: 'dashboard.weight.hours' },
+  { id: 'frequency', label: 'dashboard.weight.frequency' },
+];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// レーダーチャートの軸ラベルは「マネジメント」を省いて短くする
+const shortAreaName = (area: { label: string; ja: string }, locale: Locale) =>
+  locale === 'ja' ? area.ja.replace('・マネジメント', '').replace('マネジメント', '') : area.label.replace(' Management', '');
+
+// --- レーダーチャート（SVG） ---
+const SIZE = 280;
+const CENTER = SIZE / 2;
+const RADIUS = 90;
+
+const point = (index: number, count: number, ratio: number) => {
+  const angle = (Math.PI * 2 * index) / count - Math.PI / 2;
+  return [CENTER + Math.cos(angle) * RADIUS * ratio, CENTER + Math.sin(angle) * RADIUS * ratio];
+};
+
+const RadarChart = ({ areas, locale }: { areas: AreaCoverage[]; locale: Locale }) => {
+  // 最も多いエリアを外周に合わせ、偏りを見やすくする
+  const max = Math.max(...areas.map(a => a.share), 0.0001);
+  const polygon = (ratios: number[]) => ratios.map((r, i) => point(i, ratios.length, r).join(',')).join(' ');
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[320px] mx-auto">
+      {[0.25, 0.5, 0.75, 1].map(r => (
+        <polygon key={r} points={polygon(areas.map(() => r))} fill="none" stroke="#e2e8f0" strokeWidth={1} />
+      ))}
+      {areas.map((a, i) => {
+        const [x, y] = point(i, areas.length, 1);
+        const [lx, ly] = point(i, areas.length, 1.3);
+        return (
+          <g key={a.id}>
+            <line x1={CENTER} y1={CENTER} x2={x} y2={y} stroke="#e2e8f0" strokeWidth={1} />
+            <text x={lx} y={ly} textAnchor="middle" dominantBaseline="middle" fontSize={8} fill={a.share === 0 ? '#cbd5e1' : '#475569'}>
+              {shortAreaName(a, locale)}
+            </text>
+          </g>
+        );
+      })}
+      <polygon points={polygon(areas.map(a => a.share / max))} fill="rgba(99,102,241,0.2)" stroke="#6366f1" strokeWidth={2} />
+    </svg>
+  );
+};
+
+const BarChart = ({ areas, locale }: { areas: AreaCoverage[]; locale: Locale }) => {
+  const max = Math.max(...areas.map(a => a.share), 0.0001);
+  return (
+    <div className="space-y-1.5">
+      {areas.map(a => (
+        <div key={a.id} className="flex items-center gap-2 text-[10px]">
+          <span className={`w-28 shrink-0 truncate ${a.share === 0 ? 'text-slate-300' : 'text-slate-600'}`}>{entryName(a, locale)}</span>
+          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${(a.share / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right text-slate-500">{percent(a.share)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// 空欄は未入力として扱う
+const parseWeight = (value: string) => {
+  const n = Number(value.normalize('NFKC'));
+  return value.trim() === '' || !Number.isFinite(n) || n < 0 ? undefined : n;
+};
+
+export default function SkillDashboard({ tasks, results, categories, onTasksChange, readOnly, locale, taxonomy }: Props) {
+  const t = useI18n();
+  const [weightMode, setWeightMode] = useState<WeightMode>('count');
+  const [chart, setChart] = useState<ChartType>('radar');
+  const [showWeights, setShowWeights] = useState(false);
+
+  const profile = buildSkillProfile(tasks, results, categories, weightMode, locale, taxonomy.id);
+
+  const updateTask = (id: string, patch: Partial<Task>) =>
+    onTasksChange(tasks.map(task => (task.id === id ? { ...task, ...patch } : task)));
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-2xl p-4 mb-8 space-y-4 shadow-sm">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-slate-600">{t('dashboard.title', { taxonomy: taxonomyName(taxonomy, locale) })}</span>
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          <button onClick={() => setChart('radar')} title={t('dashboard.radar')} className={`p-1 rounded-md ${chart === 'radar' ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400'}`}><Radar size={14} /></button>
+          <button onClick={() => setChart('bar')} title={t('dashboard.bar')} className={`p-1 rounded-md ${chart === 'bar' ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400'}`}><BarChart3 size={14} /></button>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {WEIGHT_MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setWeightMode(m.id)}
+            className={`flex-1 text-[10px] font-bold rounded-lg py-1.5 ${weightMode === m.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+          >
+            {t(m.label)}
+          </button>
+        ))}
+      </div>
+
+      {profile.total > 0 ? (
+        chart === 'radar' ? <RadarChart areas={profile.areas} locale={locale} /> : <BarChart areas={profile.areas} locale={locale} />
+      ) : (
+        <p className="text-xs text-slate-400 text-center py-8">{t('dashboard.empty')}</p>
+      )}
+
+      <div className="text-[10px] text-slate-400 space-y-0.5">
+        {profile.missingWeights > 0 && <p>{t('dashboard.missing', { weight: t(`dashboard.weight.${weightMode}` as const), count: profile.missingWeights })}</p>}
+        {profile.unmapped.tasks.length > 0 && <p>{t('dashboard.unmapped', { count: profile.unmapped.tasks.length })}</p>}
+      </div>
+
+      {/* 伸ばしどころの提案 */}
+      {profile.total > 0 && profile.suggestions.length > 0 && (
+        <div className="bg-emerald-50/60 border border-emerald-100 rounded-xl p-3 space-y-2">
+          <div className="text-xs font-bold text-emerald-700 flex items-center gap-1"><Sprout size={14} /> {t('dashboard.suggestions')}</div>
+          {profile.suggestions.map(s => (
+            <div key={s.id} className="text-[11px] leading-relaxed">
+              <span className="font-bold text-slate-700">{entryName(s, locale)}</span>
+              <span className="text-slate-400"> ({percent(s.share)})</span>
+              <span className="text-slate-600"> — {s.hint}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* タスクごとの工数・頻度 */}
+      <button onClick={() => setShowWeights(!showWeights)} className="w-full text-[10px] font-bold text-slate-500 hover:text-slate-800 flex items-center justify-center gap-1">
+        {t('dashboard.enterWeights')} {showWeights ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+      </button>
+      <AnimatePresence>
+        {showWeights && (
+          <motion.div initial={{ height: 0 }} animate={{ height: 'auto' }} exit={{ height: 0 }} className="overflow-hidden">
+            <table className="w-full text-[10px]">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="text-left font-normal pb-1">{t('dashboard.task')}</th>
+                  <th className="text-left font-normal pb-1">{t('dashboard.area')}</th>
+                  <th className="text-right font-normal pb-1 w-14">{t('dashboard.hours')}</th>
+                  <th className="text-right font-normal pb-1 w-14">{t('dashboard.frequency')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.filter(task => results[task.id] && !results[task.id].isError).map(task => {
+                  const area = resolveArea(results[task.id], categories, taxonomy);
+                  return (
+                    <tr key={task.id} className="border-t border-slate-50">
+                      <td className="py-1 pr-2 text-slate-700 truncate max-w-[140px]">{task.text}</td>
+                      <td className="py-1 pr-2 text-slate-400 truncate max-w-[80px]">{area ? entryName(area, locale) : t('dashboard.other')}</td>
+                      {(['hours', 'frequency'] as const).map(field => (
+                        <td key={field} className="py-1 text-right">
+                          <input
+                            key={task[field] ?? ''}
+                            defaultValue={task[field] ?? ''}
+                            inputMode="decimal"
+                            readOnly={readOnly}
+                            onBlur={(e) => updateTask(task.id, { [field]: parseWeight(e.target.value) })}
+                            className="w-12 text-right bg-slate-50 border border-slate-200 rounded px-1 py-0.5"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
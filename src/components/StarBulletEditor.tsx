@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { ListChecks, Loader2, Check, X } from 'lucide-react'
+import type { AchievementContext } from '../types'
+import { ACHIEVEMENT_FIELDS } from '../lib/resume'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  achievement: AchievementContext;
+  bullets: string[];
+  onGenerate: (achievement: AchievementContext) => Promise<void>;
+  onSave: (bullets: string[]) => void;
+  onClose: () => void;
+  disabled?: boolean;
+};
+
+// 追加質問に答えて箇条書きを作成し、そのまま手直しできる
+export default function StarBulletEditor({ achievement, bullets, onGenerate, onSave, onClose, disabled }: Props) {
+  const t = useI18n();
+  const [answers, setAnswers] = useState<AchievementContext>(achievement);
+  // 手直し中でなければ保存済みの箇条書きを表示する（作成し直すと破棄）
+  const [draft, setDraft] = useState<string | null>(null);
+  const text = draft ?? bullets.join('\n');
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const generate = async () => {
+    setGenerating(true);
+    setError('');
+    try {
+      await onGenerate(answers);
+      setDraft(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div data-html2canvas-ignore className="mt-2 space-y-2 bg-slate-50 p-3 rounded-xl border border-slate-100">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-slate-600 flex items-center gap-1"><ListChecks size={14} /> {t('star.title')}</span>
+        <button onClick={onClose} title={t('common.close')} className="text-slate-400 hover:text-slate-700"><X size={14} /></button>
+      </div>
+      <p className="text-[10px] text-slate-500">{t('star.intro')}</p>
+      {ACHIEVEMENT_FIELDS.map(field => (
+        <label key={field} className="block space-y-0.5">
+          <span className="text-[10px] font-bold text-slate-500">{t(`star.field.${field}` as const)}</span>
+          <input
+            value={answers[field] ?? ''}
+            onChange={(e) => setAnswers({ ...answers, [field]: e.target.value || undefined })}
+            placeholder={t(`star.hint.${field}` as const)}
+            className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-slate-400 outline-none"
+          />
+        </label>
+      ))}
+      <button
+        onClick={generate}
+        disabled={disabled || generating}
+        className="w-full text-xs font-bold bg-slate-900 disabled:bg-slate-300 text-white rounded-lg py-2 flex items-center justify-center gap-1"
+      >
+        {generating ? <><Loader2 size={12} className="animate-spin" /> {t('star.generating')}</> : t('star.generate')}
+      </button>
+      {error && <p className="text-[10px] text-red-500 font-bold">{t('star.failed', { message: error })}</p>}
+
+      <label className="block space-y-0.5">
+        <span className="text-[10px] font-bold text-slate-500">{t('star.bullets')}</span>
+        <textarea
+          value={text}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={4}
+          className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs leading-relaxed focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+      </label>
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSave(text.split('\n').map(line => line.replace(/^\s*[-・•]\s*/, '').trim()).filter(Boolean))}
+          disabled={disabled}
+          className="text-xs font-bold bg-slate-900 disabled:bg-slate-300 text-white rounded-lg flex items-center gap-1 px-3 py-1"
+        >
+          <Check size={12} /> {t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Upload, X, FileSpreadsheet } from 'lucide-react'
+import type { Task } from '../types'
+import type { ColumnMapping, Delimiter } from '../lib/taskImport'
+import { DELIMITERS, decodeFile, detectDelimiter, parseImportTable, looksLikeHeader, guessMapping, buildImportedTasks } from '../lib/taskImport'
+import type { MessageKey } from '../lib/messages'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  existing: Task[];
+  onImport: (tasks: Task[]) => void;
+  onClose: () => void;
+};
+
+// 数百行でも描画が重くならないよう、プレビューは先頭のみ表示する
+const PREVIEW_ROWS = 8;
+
+const DELIMITER_LABELS: Record<Delimiter, MessageKey> = {
+  '\t': 'import.delimiter.tab',
+  ',': 'import.delimiter.comma',
+  line: 'import.delimiter.line',
+};
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: MessageKey; optional: boolean }[] = [
+  { key: 'task', label: 'import.taskColumn', optional: false },
+  { key: 'hours', label: 'import.hoursColumn', optional: true },
+  { key: 'date', label: 'import.dateColumn', optional: true },
+];
+
+export default function TaskImportDialog({ existing, onImport, onClose }: Props) {
+  const t = useI18n();
+  const columnLabel = (index: number) => t('import.column', { n: index + 1 });
+  const [source, setSource] = useState('');
+  const [delimiter, setDelimiter] = useState<Delimiter>('line');
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({ task: 0, hours: null, date: null });
+  const [error, setError] = useState('');
+
+  // 新しいテキストを読み込んだときや区切りを変えたときだけ見出し行と列の割り当てを推測し直す
+  const guess = (text: string, nextDelimiter: Delimiter) => {
+    const header = looksLikeHeader(text, nextDelimiter);
+    setDelimiter(nextDelimiter);
+    setHasHeader(header);
+    setMapping(guessMapping(parseImportTable(text, header, columnLabel, nextDelimiter)));
+  };
+
+  const loadSource = (text: string, filename = '') => {
+    setSource(text);
+    guess(text, detectDelimiter(text, filename));
+    setError('');
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      loadSource(await decodeFile(file), file.name);
+    } catch (e) {
+      setError(t('import.readFailed', { message: (e as Error).message }));
+    }
+  };
+
+  const table = parseImportTable(source, hasHeader, columnLabel, delimiter);
+  const result = source.trim() ? buildImportedTasks(table, mapping, existing) : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="overflow-hidden"
+    >
+      <div className="bg-white p-4 rounded-3xl shadow-sm border border-slate-100 space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-bold text-slate-600 flex items-center gap-1"><FileSpreadsheet size={14} /> {t('import.title')}</span>
+          <button onClick={onClose} title={t('common.close')} className="text-slate-400 hover:text-slate-700"><X size={16} /></button>
+        </div>
+
+        <textarea
+          value={source}
+          onChange={(e) => loadSource(e.target.value)}
+          placeholder={t('import.placeholder')}
+          rows={4}
+          className="w-full border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-slate-400 outline-none"
+        />
+        <label className="text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl px-3 py-2 cursor-pointer inline-flex items-center gap-1">
+          <Upload size={12} /> {t('import.chooseFile')}
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {error && <p className="text-xs text-red-500 font-bold">{error}</p>}
+
+        {result && (
+          <>
+            <div className="flex flex-wrap gap-2 items-center text-[10px] text-slate-500">
+              <label className="flex items-center gap-1">
+                {t('import.delimiter')}
+                <select
+                  value={delimiter}
+                  onChange={(e) => guess(source, e.target.value as Delimiter)}
+                  className="bg-slate-50 border border-slate-200 rounded-md px-1 py-0.5"
+                >
+                  {DELIMITERS.map(d => <option key={d} value={d}>{t(DELIMITER_LABELS[d])}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                {t('import.hasHeader')}
+              </label>
+              {MAPPING_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center gap-1">
+                  {t(field.label)}
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                    className="bg-slate-50 border border-slate-200 rounded-md px-1 py-0.5"
+                  >
+                    {field.optional && <option value="">{t('import.none')}</option>}
+                    {table.headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto border border-slate-100 rounded-xl">
+              <table className="w-full text-[10px]">
+                <thead className="bg-slate-50 text-slate-400">
+                  <tr>
+                    {table.headers.map((h, i) => (
+                      <th key={i} className={`text-left font-normal px-2 py-1 whitespace-nowrap ${i === mapping.task ? 'text-slate-800 font-bold' : ''}`}>{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                    <tr key={r} className="border-t border-slate-50">
+                      {row.map((cell, i) => (
+                        <td key={i} className={`px-2 py-1 truncate max-w-[160px] ${i === mapping.task ? 'text-slate-800' : 'text-slate-400'}`}>{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {table.rows.length > PREVIEW_ROWS && (
+                <p className="text-[10px] text-slate-400 text-center py-1">{t('import.moreRows', { count: table.rows.length - PREVIEW_ROWS })}</p>
+              )}
+            </div>
+
+            <div className="flex justify-between items-center gap-2">
+              <p className="text-[10px] text-slate-500">
+                {t('import.summary', { count: result.tasks.length, duplicates: result.duplicates, blanks: result.blanks })}
+              </p>
+              <button
+                onClick={() => onImport(result.tasks)}
+                disabled={result.tasks.length === 0}
+                className="text-xs font-bold bg-slate-900 disabled:bg-slate-200 text-white rounded-xl px-4 py-2 shrink-0"
+              >
+                {t('import.submit')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
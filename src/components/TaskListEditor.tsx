@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { Reorder, useDragControls } from 'framer-motion'
+import { GripVertical, Pencil, X, Check } from 'lucide-react'
+import type { Mode, Task } from '../types'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  tasks: Task[];
+  mode: Mode;
+  onChange: (tasks: Task[]) => void;
+};
+
+type ItemProps = {
+  task: Task;
+  mode: Mode;
+  onEdit: (text: string) => void;
+  onDelete: () => void;
+};
+
+// ドラッグはハンドルからのみ開始し、テキスト編集中の誤操作を防ぐ
+const TaskItem = ({ task, mode, onEdit, onDelete }: ItemProps) => {
+  const t = useI18n();
+  const controls = useDragControls();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim()) onEdit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <Reorder.Item
+      value={task}
+      dragListener={false}
+      dragControls={controls}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-slate-50 px-3 py-3 rounded-xl text-slate-700 text-sm flex items-center gap-2 border border-slate-100 group"
+    >
+      <button
+        onPointerDown={(e) => controls.start(e)}
+        className="text-slate-300 hover:text-slate-500 cursor-grab active:cursor-grabbing touch-none shrink-0"
+        title={t('tasks.drag')}
+      >
+        <GripVertical size={16} />
+      </button>
+      <div className={`w-1.5 h-1.5 rounded-full shrink-0 transition-colors ${mode === 'ai' ? 'bg-indigo-500 group-hover:bg-indigo-400' : 'bg-slate-500 group-hover:bg-slate-400'}`} />
+      {draft === null ? (
+        <>
+          <span className="break-all flex-1" onDoubleClick={() => setDraft(task.text)}>{task.text}</span>
+          {task.hours !== undefined && <span className="text-[10px] text-slate-400 shrink-0">{Math.round(task.hours * 10) / 10}h</span>}
+          <button onClick={() => setDraft(task.text)} title={t('common.edit')} className="text-slate-300 hover:text-slate-600 opacity-0 group-hover:opacity-100 shrink-0">
+            <Pencil size={14} />
+          </button>
+          <button onClick={onDelete} title={t('common.delete')} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 shrink-0">
+            <X size={16} />
+          </button>
+        </>
+      ) : (
+        <>
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            onBlur={commit}
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-slate-400 outline-none"
+          />
+          <button onClick={commit} title={t('common.confirm')} className="text-slate-500 hover:text-slate-800 shrink-0">
+            <Check size={16} />
+          </button>
+        </>
+      )}
+    </Reorder.Item>
+  );
+};
+
+export default function TaskListEditor({ tasks, mode, onChange }: Props) {
+  return (
+    <Reorder.Group axis="y" values={tasks} onReorder={onChange} className="flex flex-col gap-3">
+      {tasks.map(task => (
+        <TaskItem
+          key={task.id}
+          task={task}
+          mode={mode}
+          onEdit={(text) => onChange(tasks.map(t => (t.id === task.id ? { ...t, text } : t)))}
+          onDelete={() => onChange(tasks.filter(t => t.id !== task.id))}
+        />
+      ))}
+    </Reorder.Group>
+  );
+}
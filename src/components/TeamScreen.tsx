@@ -0,0 +1,270 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion } from 'framer-motion'
+import { ArrowLeft, Users, Upload, Plus, Trash2, Download, AlertCircle, EyeOff } from 'lucide-react'
+import type { SavedSession } from '../lib/history'
+import { listSessions } from '../lib/history'
+import type { TeamMember } from '../lib/team'
+import {
+  parsePortfolioJson, memberFromPortfolio, memberFromSession, loadRoster, saveRoster, dominantTaxonomy, buildTeamSummary, teamSummaryCsv
+} from '../lib/team'
+import type { TaxonomyId } from '../lib/taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS, entryName, taxonomyName } from '../lib/taxonomy'
+import { downloadText } from '../lib/download'
+import type { Locale } from '../lib/i18n'
+import { useI18n } from '../lib/i18n'
+
+type Props = {
+  locale: Locale;
+  taxonomy: TaxonomyId;
+  onClose: () => void;
+};
+
+// 件数が多いほど濃くする（0件は空欄扱い）
+const HEAT = [
+  'text-slate-200',
+  'bg-indigo-50 text-indigo-700',
+  'bg-indigo-100 text-indigo-800',
+  'bg-indigo-200 text-indigo-900',
+  'bg-indigo-400 text-white',
+  'bg-indigo-600 text-white font-bold',
+];
+
+const heatClass = (value: number, max: number) =>
+  value === 0 || max === 0 ? HEAT[0] : HEAT[Math.min(HEAT.length - 1, Math.ceil((value / max) * (HEAT.length - 1)))];
+
+// 人事・人材育成担当向け: 職員の経歴書を名簿にまとめ、課・部の PM スキル分布を見る
+export default function TeamScreen({ locale, taxonomy: initialTaxonomy, onClose }: Props) {
+  const t = useI18n();
+  const [members, setMembers] = useState<TeamMember[]>(loadRoster);
+  const [taxonomyId, setTaxonomyId] = useState<TaxonomyId>(() => dominantTaxonomy(loadRoster(), initialTaxonomy));
+  const [anonymize, setAnonymize] = useState(false);
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((e: Error) => setLoadError(e.message));
+  }, []);
+
+  const update = (next: TeamMember[]) => {
+    setMembers(next);
+    saveRoster(next);
+  };
+
+  const importFiles = async (files: File[]) => {
+    const added: TeamMember[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      const result = parsePortfolioJson(await file.text());
+      if (result.ok) added.push(memberFromPortfolio(result.document, file.name.replace(/\.json$/i, ''), file.name));
+      else failed.push(t('team.importFailed', { file: file.name, message: result.errors.join(' / ') }));
+    }
+    setErrors(failed);
+    if (added.length > 0) update([...members, ...added]);
+  };
+
+  const addSession = () => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session || !memberName.trim()) return;
+    update([...members, memberFromSession(session, memberName.trim())]);
+    setSessionId('');
+    setMemberName('');
+  };
+
+  const edit = (id: string, patch: Partial<Pick<TeamMember, 'name' | 'unit'>>) =>
+    update(members.map(m => (m.id === id ? { ...m, ...patch } : m)));
+
+  const remove = (member: TeamMember) => {
+    if (!confirm(t('team.confirmDelete', { name: member.name }))) return;
+    update(members.filter(m => m.id !== member.id));
+  };
+
+  const clear = () => {
+    if (!confirm(t('team.confirmClear'))) return;
+    update([]);
+  };
+
+  const summary = buildTeamSummary(members, taxonomyId, { anonymize, locale });
+  const otherTaxonomy = summary.rows.filter(r => r.otherTaxonomy).length;
+
+  return (
+    <motion.div
+      key="team"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="w-full max-w-2xl mx-auto space-y-6"
+    >
+      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Users size={20} /> {t('team.title')}</h2>
+          <p className="text-xs text-slate-500 mt-1">{t('team.subtitle')}</p>
+        </div>
+        <button onClick={onClose} className="text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <ArrowLeft size={14} /> {t('common.back')}
+        </button>
+      </div>
+
+      {/* 経歴書の取り込み */}
+      <div className="bg-white border border-slate-200 rounded-2xl p-4 space-y-3 shadow-sm">
+        <input ref={fileRef} type="file" accept=".json,application/json" multiple className="hidden" onChange={(e) => {
+          const files = [...(e.target.files ?? [])];
+          if (files.length > 0) importFiles(files);
+          e.target.value = '';
+        }} />
+        <button onClick={() => fileRef.current?.click()} className="w-full text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 hover:bg-slate-100 rounded-xl py-2 flex items-center justify-center gap-1">
+          <Upload size={12} /> {t('team.importFiles')}
+        </button>
+        <p className="text-[10px] text-slate-500">{t('team.importNote')}</p>
+
+        {sessions.length > 0 && (
+          <div className="space-y-1 border-t border-slate-100 pt-3">
+            <div className="text-[10px] font-bold text-slate-500">{t('team.fromHistory')}</div>
+            <div className="flex gap-2">
+              <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs">
+                <option value="">{t('team.selectSession')}</option>
+                {sessions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+              </select>
+              <input
+                value={memberName}
+                onChange={(e) => setMemberName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addSession()}
+                placeholder={t('team.namePlaceholder')}
+                className="w-32 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs"
+              />
+              <button onClick={addSession} disabled={!sessionId || !memberName.trim()} title={t('team.add')} className="bg-slate-900 disabled:bg-slate-300 text-white rounded-lg px-3">
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+        {loadError && <p className="text-xs text-red-500 font-bold">{t('history.loadFailed', { message: loadError })}</p>}
+        {errors.map((e, i) => <p key={i} className="text-xs text-red-500 font-bold">{e}</p>)}
+      </div>
+
+      {/* 名簿 */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-xs font-bold text-slate-600">{t('team.roster', { count: members.length })}</span>
+          {members.length > 0 && (
+            <button onClick={clear} className="text-[10px] font-bold text-slate-400 hover:text-red-500">{t('team.clear')}</button>
+          )}
+        </div>
+        {members.length === 0 && <p className="text-xs text-slate-400 text-center py-8">{t('team.empty')}</p>}
+        {members.map(m => (
+          <div key={m.id} className="bg-white px-3 py-2 rounded-xl border border-slate-100 shadow-sm flex gap-2 items-center">
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <div className="flex gap-2">
+                <input
+                  key={m.name}
+                  defaultValue={m.name}
+                  onBlur={(e) => e.target.value.trim() && e.target.value !== m.name && edit(m.id, { name: e.target.value.trim() })}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="flex-1 min-w-0 text-sm font-bold text-slate-800 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-slate-400 outline-none"
+                />
+                <input
+                  key={`unit-${m.unit}`}
+                  defaultValue={m.unit}
+                  onBlur={(e) => e.target.value !== m.unit && edit(m.id, { unit: e.target.value.trim() })}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  placeholder={t('team.unitPlaceholder')}
+                  className="w-28 text-xs text-slate-600 bg-transparent border-b border-slate-100 hover:border-slate-200 focus:border-slate-400 outline-none"
+                />
+              </div>
+              <div className="text-[10px] text-slate-400 truncate">
+                {t('team.entryCount', { count: m.entries.length })} · {taxonomyName(TAXONOMIES[m.taxonomy], locale)} · {m.source}
+              </div>
+            </div>
+            <button onClick={() => remove(m)} title={t('common.delete')} className="text-slate-300 hover:text-red-500 p-1"><Trash2 size={14} /></button>
+          </div>
+        ))}
+      </div>
+
+      {/* 職員 × PM 分野のヒートマップと部・課の合計 */}
+      {members.length > 0 && (
+        <div className="bg-white border border-slate-200 rounded-2xl p-4 space-y-3 shadow-sm">
+          <div className="flex flex-wrap gap-2 items-center">
+            <select
+              value={taxonomyId}
+              onChange={(e) => setTaxonomyId(e.target.value as TaxonomyId)}
+              title={t('team.framework')}
+              className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm"
+            >
+              {TAXONOMY_IDS.map(id => <option key={id} value={id}>{taxonomyName(TAXONOMIES[id], locale)}</option>)}
+            </select>
+            <label className="text-xs font-bold text-slate-600 flex items-center gap-1">
+              <input type="checkbox" checked={anonymize} onChange={(e) => setAnonymize(e.target.checked)} />
+              <EyeOff size={12} /> {t('team.anonymize')}
+            </label>
+            <button
+              onClick={() => downloadText(`team_${taxonomyId}.csv`, teamSummaryCsv(summary, locale), 'text/csv')}
+              className="text-[10px] font-bold text-slate-400 hover:text-slate-700 flex items-center gap-1"
+            >
+              <Download size={12} /> {t('team.downloadCsv')}
+            </button>
+          </div>
+          {otherTaxonomy > 0 && (
+            <p className="text-[10px] text-amber-600 font-bold flex items-center gap-1"><AlertCircle size={12} /> {t('team.otherTaxonomy', { count: otherTaxonomy })}</p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="text-[10px] border-collapse w-full">
+              <thead>
+                <tr>
+                  <th className="text-left font-normal text-slate-400 pr-2">{t('team.name')}</th>
+                  {summary.axes.map((a, i) => (
+                    <th key={a.id} title={entryName(a, locale)} className="w-7 font-normal text-slate-400">{i + 1}</th>
+                  ))}
+                  <th title={t('team.unmapped')} className="w-7 font-normal text-slate-400">—</th>
+                  <th className="w-8 font-normal text-slate-400 text-right">{t('team.entries')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.rows.map(r => (
+                  <tr key={r.memberId}>
+                    <th className="text-left font-normal text-slate-600 pr-2 whitespace-nowrap max-w-[140px] truncate">
+                      {r.name}{r.unit && <span className="text-slate-400"> · {r.unit}</span>}
+                    </th>
+                    {summary.axes.map(a => (
+                      <td key={a.id} className={`w-7 h-6 text-center border border-white ${heatClass(r.counts[a.id], summary.max)}`}>{r.counts[a.id]}</td>
+                    ))}
+                    <td className={`w-7 text-center border border-white ${r.unmapped ? 'text-amber-600' : 'text-slate-200'}`}>{r.unmapped}</td>
+                    <td className="text-right text-slate-600">{r.total}</td>
+                  </tr>
+                ))}
+                {[...summary.units, summary.totals].map((totals, i, all) => (
+                  <tr key={`${totals.label}-${i}`} className={`border-t border-slate-200 ${i === all.length - 1 ? 'font-bold text-slate-800' : 'text-slate-600'}`}>
+                    <th className={`text-left pr-2 whitespace-nowrap ${i === all.length - 1 ? '' : 'font-normal'}`}>
+                      {totals.label} <span className="font-normal text-slate-400">({t('team.memberCount', { count: totals.members })})</span>
+                    </th>
+                    {summary.axes.map(a => <td key={a.id} className="text-center">{totals.counts[a.id]}</td>)}
+                    <td className="text-center">{totals.unmapped}</td>
+                    <td className="text-right">{totals.total}</td>
+                  </tr>
+                ))}
+                <tr className="text-slate-500">
+                  <th className="text-left font-normal pr-2 whitespace-nowrap">{t('team.experienced')}</th>
+                  {summary.axes.map(a => (
+                    <td key={a.id} className={`text-center ${summary.totals.experienced[a.id] === 0 ? 'text-red-500 font-bold' : ''}`}>{summary.totals.experienced[a.id]}</td>
+                  ))}
+                  <td />
+                  <td />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* 列番号の凡例 */}
+          <ol className="text-[10px] text-slate-500 grid grid-cols-2 gap-x-4 list-decimal list-inside">
+            {summary.axes.map(a => <li key={a.id} className="truncate">{entryName(a, locale)}</li>)}
+          </ol>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,147 @@
+import type { SkillCategory, DebugLog } from '../types'
+import type { ChatMessage, LLMProvider, ProviderConfig } from './providers'
+import type { DictionaryCategory } from './dictionary'
+import type { TaxonomyId, TaxonomyEntry } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, isTaxonomyId, entryName } from './taxonomy'
+import { buildResponseSchema, parseAIResponse, buildRepairPrompt } from './structuredOutput'
+import { analyzeTextStandard } from './classifier'
+import { FALLBACK_CATEGORY, localizeCategory } from './dictionary'
+import type { RedactionSettings } from './redaction'
+import { redactText } from './redaction'
+import { ERROR_COLOR } from './icons'
+import { TimeoutError } from './batchRunner'
+import type { Locale } from './i18n'
+import { translate } from './i18n'
+
+const LANGUAGE_NAMES: Record<Locale, string> = { ja: 'Japanese', en: 'English' };
+
+// 分類先は選択中の体系のエントリ ID で答えさせ、表示名はアプリ側で出力言語に合わせる
+export const buildSystemPrompt = (language: Locale = 'ja', taxonomyId: TaxonomyId = DEFAULT_TAXONOMY) => {
+  const taxonomy = TAXONOMIES[taxonomyId];
+  const groupName = (group?: string) => taxonomy.domains?.find(d => d.id === group)?.label;
+  return `
+You are an expert Project Manager.
+Analyze the user's task description and map it to exactly one entry of the ${taxonomy.name}.
+Taxonomy: ${taxonomy.id}
+Output language: ${language}
+Entries (id: official name):
+${taxonomy.entries.map(e => `- ${e.id}: ${e.label}${e.group ? ` (${groupName(e.group)})` : ''}`).join('\n')}
+Return ONLY a JSON object with the following structure (no markdown):
+{
+  "id": "One of the entry ids above",
+  "text": "A professional description in ${LANGUAGE_NAMES[language]} (${language === 'ja' ? 'approx 30 chars' : 'approx 15 words'})"
+}
+`;
+};
+
+// プロバイダ側（デモ用の模擬AI）がプロンプトから出力言語・分類体系を読み取る
+export const promptLanguage = (system: string): Locale => (/^Output language: en$/m.test(system) ? 'en' : 'ja');
+
+export const promptTaxonomy = (system: string): TaxonomyId => {
+  const id = /^Taxonomy: (\w+)$/m.exec(system)?.[1];
+  return isTaxonomyId(id) ? id : DEFAULT_TAXONOMY;
+};
+
+// 検証に失敗した応答を修復依頼する最大回数
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type AIContext = {
+  provider: LLMProvider;
+  config: ProviderConfig;
+  apiKey: string;
+  // 修復に失敗した場合に使うスタンダードモードの辞書
+  categories: DictionaryCategory[];
+  redaction: RedactionSettings;
+  language: Locale;
+  taxonomy: TaxonomyId;
+};
+
+export type AIOutcome = { result: SkillCategory, log: DebugLog };
+
+// 該当なしの回答はスタンダードモードと同じくジェネラルとして表示する
+export const answerLabel = (entry: TaxonomyEntry | undefined, language: Locale) =>
+  entry ? entryName(entry, language) : localizeCategory(FALLBACK_CATEGORY, language).label;
+
+// --- AIモード（プロバイダ経由の呼び出し） ---
+// 通信エラーはバッチ実行側でリトライ判定できるよう、そのまま投げる
+// 送信・ログには伏せ字処理後のテキストだけを使い、元の文章はブラウザの外に出さない
+export const translateWithAI = async (
+  text: string,
+  ctx: AIContext,
+  signal?: AbortSignal
+): Promise<AIOutcome> => {
+  const payload = redactText(text, ctx.redaction).text;
+  const system = buildSystemPrompt(ctx.language, ctx.taxonomy);
+  const taxonomy = TAXONOMIES[ctx.taxonomy];
+  const schema = buildResponseSchema(taxonomy);
+  const messages: ChatMessage[] = [{ role: 'user', content: payload }];
+  const responses: string[] = [];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { text: content } = await ctx.provider.complete(
+      { system, messages, schema, signal },
+      ctx.config,
+      ctx.apiKey
+    );
+    responses.push(content);
+
+    const parsed = parseAIResponse(content, taxonomy);
+    if (parsed.ok) {
+      return {
+        result: {
+          label: answerLabel(parsed.value.entry, ctx.language),
+          areaId: parsed.value.id,
+          text: parsed.value.text,
+          iconKey: parsed.value.entry?.iconKey ?? FALLBACK_CATEGORY.iconKey,
+          color: 'text-indigo-600',
+          bg: 'bg-indigo-50',
+          source: attempt === 0 ? 'ai' : 'repaired'
+        },
+        log: {
+          prompt: system,
+          input: payload,
+          response: parsed.json,
+          attempts: attempt + 1
+        }
+      };
+    }
+
+    errors = parsed.errors;
+    messages.push({ role: 'assistant', content }, { role: 'user', content: buildRepairPrompt(errors) });
+  }
+
+  // 修復しきれなかった場合はスタンダードモードの結果で代替する
+  return {
+    result: { ...analyzeTextStandard(text, ctx.categories, ctx.language, ctx.taxonomy), source: 'fallback' },
+    log: {
+      prompt: system,
+      input: payload,
+      response: [...responses, `// validation errors:\n${errors.join('\n')}`].join('\n---\n'),
+      attempts: responses.length
+    }
+  };
+};
+
+// リトライしても失敗・キャンセルされたタスクのカード（text は伏せ字処理後の送信内容）
+export const toErrorOutcome = (
+  text: string,
+  error: unknown,
+  cancelled = false,
+  language: Locale = 'ja',
+  taxonomyId: TaxonomyId = DEFAULT_TAXONOMY
+): AIOutcome => {
+  const message = cancelled ? translate(language, 'ai.cancelled')
+    : error instanceof TimeoutError ? translate(language, 'ai.timeout', { seconds: error.seconds })
+    : error instanceof Error ? error.message : String(error);
+  return {
+    result: {
+      label: cancelled ? 'Cancelled' : 'API Error',
+      text: cancelled ? message : translate(language, 'ai.connectionFailed', { message }),
+      iconKey: 'XCircle',
+      ...ERROR_COLOR,
+      isError: true
+    },
+    log: { prompt: buildSystemPrompt(language, taxonomyId), input: text, response: JSON.stringify(message) }
+  };
+};
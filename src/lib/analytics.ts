@@ -0,0 +1,105 @@
+import type { Task, SkillCategory } from '../types'
+import type { DictionaryCategory } from './dictionary'
+import { FALLBACK_CATEGORY, localizeCategory } from './dictionary'
+import type { Taxonomy, TaxonomyId, TaxonomyEntry } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, findEntry, profileAxes, axisOf, categoryEntry } from './taxonomy'
+import type { Locale } from './i18n'
+
+// --- スキルプロフィールの集計 ---
+// count: 件数、hours: 工数（時間）、frequency: 頻度（回/月）で重み付けする
+export type WeightMode = 'count' | 'hours' | 'frequency';
+
+export type AreaCoverage = {
+  id: string;
+  label: string;
+  ja: string;
+  iconKey: string;
+  weight: number;
+  share: number; // 全体に占める割合（0〜1）
+  tasks: string[];
+};
+
+export type GrowthSuggestion = {
+  id: string;
+  label: string;
+  ja: string;
+  share: number;
+  hint: string;
+};
+
+export type SkillProfile = {
+  areas: AreaCoverage[];
+  unmapped: { weight: number; tasks: string[] };
+  total: number;
+  missingWeights: number; // 重み付けに必要な値が未入力のタスク数
+  suggestions: GrowthSuggestion[];
+};
+
+// 割合がこれ未満のエリアは「経験が少ない」として提案に出す
+const GAP_THRESHOLD = 0.05;
+
+// カードを集計の軸（ECO はドメイン）へ寄せる。エントリ ID を持たない旧形式の結果は
+// 体系の名称、辞書カテゴリのラベルの順に照合する
+export const resolveArea = (result: SkillCategory, categories: DictionaryCategory[], taxonomy: Taxonomy): TaxonomyEntry | undefined => {
+  const direct = (result.areaId && findEntry(taxonomy, result.areaId)) || findEntry(taxonomy, result.label);
+  if (direct) return axisOf(taxonomy, direct);
+  // 出力言語が英語の場合は英語ラベルで照合する
+  const category = [...categories, FALLBACK_CATEGORY].find(c => c.label === result.label || localizeCategory(c, 'en').label === result.label);
+  const entry = category && categoryEntry(category, taxonomy);
+  return entry ? axisOf(taxonomy, entry) : undefined;
+};
+
+const taskWeight = (task: Task, mode: WeightMode): number | undefined => {
+  if (mode === 'count') return 1;
+  return mode === 'hours' ? task.hours : task.frequency;
+};
+
+export const buildSkillProfile = (
+  tasks: Task[],
+  results: Record<string, SkillCategory>,
+  categories: DictionaryCategory[],
+  mode: WeightMode,
+  locale: Locale = 'ja',
+  taxonomyId: TaxonomyId = DEFAULT_TAXONOMY
+): SkillProfile => {
+  const taxonomy = TAXONOMIES[taxonomyId];
+  const weights = new Map<string, { weight: number; tasks: string[] }>();
+  const unmapped = { weight: 0, tasks: [] as string[] };
+  let missingWeights = 0;
+
+  for (const task of tasks) {
+    const result = results[task.id];
+    if (!result || result.isError) continue;
+    const weight = taskWeight(task, mode);
+    if (weight === undefined) {
+      missingWeights++;
+      continue;
+    }
+    const area = resolveArea(result, categories, taxonomy);
+    const bucket = area ? weights.get(area.id) ?? { weight: 0, tasks: [] } : unmapped;
+    bucket.weight += weight;
+    bucket.tasks.push(task.text);
+    if (area) weights.set(area.id, bucket);
+  }
+
+  const total = [...weights.values()].reduce((sum, b) => sum + b.weight, 0) + unmapped.weight;
+  const axes = profileAxes(taxonomy);
+  const areas = axes.map(a => {
+    const bucket = weights.get(a.id);
+    return {
+      id: a.id,
+      label: a.label,
+      ja: a.ja,
+      iconKey: a.iconKey,
+      weight: bucket?.weight ?? 0,
+      share: total > 0 ? (bucket?.weight ?? 0) / total : 0,
+      tasks: bucket?.tasks ?? [],
+    };
+  });
+  const suggestions = areas
+    .filter(a => a.share < GAP_THRESHOLD)
+    .sort((a, b) => a.share - b.share)
+    .map(a => ({ id: a.id, label: a.label, ja: a.ja, share: a.share, hint: axes.find(axis => axis.id === a.id)?.hint?.[locale] ?? '' }));
+
+  return { areas, unmapped, total, missingWeights, suggestions };
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { JobUpdate, RunnerSettings } from './batchRunner'
+import { runBatch, backoffDelay, isRetryable, clampRunnerSetting, loadRunnerSettings, TimeoutError } from './batchRunner'
+import { ProviderError } from './providers'
+
+const SETTINGS: RunnerSettings = { concurrency: 2, maxRetries: 2, timeoutSec: 5 };
+
+const run = async <R>(worker: (item: string, signal: AbortSignal) => Promise<R>, settings = SETTINGS, signal = new AbortController().signal) => {
+  const updates: JobUpdate<R>[] = [];
+  const done = runBatch([{ id: 'a', item: 'a' }], worker, settings, signal, u => updates.push(u));
+  await vi.runAllTimersAsync();
+  await done;
+  return updates;
+};
+
+// 中断されるまで応答しない worker
+const hang = (_: string, signal: AbortSignal) =>
+  new Promise<never>((_resolve, reject) => signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+
+describe('isRetryable', () => {
+  it('429・5xx・タイムアウト・通信断だけをリトライする', () => {
+    expect(isRetryable(new ProviderError('rate limited', 429))).toBe(true);
+    expect(isRetryable(new ProviderError('server', 503))).toBe(true);
+    expect(isRetryable(new ProviderError('network'))).toBe(true);
+    expect(isRetryable(new TimeoutError(5))).toBe(true);
+    expect(isRetryable(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryable(new ProviderError('unauthorized', 401))).toBe(false);
+    expect(isRetryable(new Error('bad request'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('回数ごとに倍になり、上限で止まる（揺らぎは ±20%）', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(0)).toBe(1000);
+    expect(backoffDelay(2)).toBe(4000);
+    expect(backoffDelay(10)).toBe(30000);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(0)).toBe(800);
+  });
+});
+
+describe('runBatch', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('リトライ対象のエラーは待ってからやり直す', async () => {
+    const worker = vi.fn()
+      .mockRejectedValueOnce(new ProviderError('rate limited', 429))
+      .mockResolvedValueOnce('ok');
+    const updates = await run(worker);
+    expect(worker).toHaveBeenCalledTimes(2);
+    expect(updates.map(u => u.status)).toEqual(['running', 'retrying', 'done']);
+    expect(updates.at(-1)?.result).toBe('ok');
+  });
+
+  it('リトライ回数を使い切ったら失敗にする', async () => {
+    const worker = vi.fn().mockRejectedValue(new ProviderError('server', 500));
+    const updates = await run(worker);
+    expect(worker).toHaveBeenCalledTimes(3);
+    expect(updates.at(-1)).toMatchObject({ status: 'failed', attempt: 2 });
+  });
+
+  it('認証エラーなどはリトライせずに失敗にする', async () => {
+    const worker = vi.fn().mockRejectedValue(new ProviderError('unauthorized', 401));
+    const updates = await run(worker);
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(updates.at(-1)?.status).toBe('failed');
+  });
+
+  it('応答がなければタイムアウトとして扱い、秒数を持たせる', async () => {
+    const updates = await run(hang, { ...SETTINGS, maxRetries: 0 });
+    const last = updates.at(-1);
+    expect(last?.status).toBe('failed');
+    expect(last?.error).toBeInstanceOf(TimeoutError);
+    expect((last?.error as TimeoutError).seconds).toBe(5);
+  });
+
+  it('キャンセルしたら失敗ではなくキャンセルにする', async () => {
+    const controller = new AbortController();
+    const updates: JobUpdate<never>[] = [];
+    const done = runBatch([{ id: 'a', item: 'a' }, { id: 'b', item: 'b' }], hang, { ...SETTINGS, concurrency: 1 }, controller.signal, u => updates.push(u));
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await done;
+    expect(updates.filter(u => u.status === 'cancelled').map(u => u.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('loadRunnerSettings', () => {
+  const store = new Map<string, string>();
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => store.set(key, value) });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('数値でない値は項目ごとに既定値に戻し、範囲外の値は丸める', () => {
+    store.set('pm_runner_settings', JSON.stringify({ concurrency: 'abc', maxRetries: -1, timeoutSec: 1e9 }));
+    expect(loadRunnerSettings()).toEqual({ concurrency: 3, maxRetries: 0, timeoutSec: 300 });
+  });
+
+  it('オブジェクトでない保存値は既定値にする', () => {
+    store.set('pm_runner_settings', '5');
+    expect(loadRunnerSettings()).toEqual({ concurrency: 3, maxRetries: 3, timeoutSec: 30 });
+  });
+
+  it('入力欄の文字列も数値に直して範囲に収める', () => {
+    expect(clampRunnerSetting('concurrency', '4')).toBe(4);
+    expect(clampRunnerSetting('concurrency', '')).toBe(3);
+    expect(clampRunnerSetting('timeoutSec', '2.4')).toBe(5);
+  });
+});
@@ -0,0 +1,157 @@
+import { ProviderError } from './providers'
+
+// --- 並列数制限・キャンセル・リトライ付きのバッチ実行 ---
+export type JobStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export type RunnerSettings = {
+  concurrency: number;
+  maxRetries: number;
+  timeoutSec: number;
+};
+
+export const DEFAULT_RUNNER_SETTINGS: RunnerSettings = {
+  concurrency: 3,
+  maxRetries: 3,
+  timeoutSec: 30,
+};
+
+// 設定画面で入力できる範囲（保存済みの値もこの範囲に収める）
+export const RUNNER_LIMITS: Record<keyof RunnerSettings, { min: number; max: number }> = {
+  concurrency: { min: 1, max: 10 },
+  maxRetries: { min: 0, max: 10 },
+  timeoutSec: { min: 5, max: 300 },
+};
+
+// 数値でなければ既定値、範囲外なら上限・下限に丸める
+export const clampRunnerSetting = (key: keyof RunnerSettings, value: unknown): number => {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return DEFAULT_RUNNER_SETTINGS[key];
+  const { min, max } = RUNNER_LIMITS[key];
+  return Math.min(max, Math.max(min, Math.round(n)));
+};
+
+const RUNNER_SETTINGS_KEY = 'pm_runner_settings';
+
+export const loadRunnerSettings = (): RunnerSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RUNNER_SETTINGS_KEY) || '{}');
+    const stored = (saved && typeof saved === 'object' ? saved : {}) as Record<string, unknown>;
+    return {
+      concurrency: clampRunnerSetting('concurrency', stored.concurrency),
+      maxRetries: clampRunnerSetting('maxRetries', stored.maxRetries),
+      timeoutSec: clampRunnerSetting('timeoutSec', stored.timeoutSec),
+    };
+  } catch {
+    return { ...DEFAULT_RUNNER_SETTINGS };
+  }
+};
+
+export const saveRunnerSettings = (settings: RunnerSettings) => {
+  localStorage.setItem(RUNNER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export type JobUpdate<R> = {
+  id: string;
+  status: JobStatus;
+  attempt: number;
+  result?: R;
+  error?: unknown;
+};
+
+// 表示する文言は画面側で seconds から組み立てる（message はログ用）
+export class TimeoutError extends Error {
+  readonly seconds: number;
+
+  constructor(seconds: number) {
+    super(`No response within ${seconds}s`);
+    this.name = 'TimeoutError';
+    this.seconds = seconds;
+  }
+}
+
+// 429・5xx・タイムアウト・通信断はリトライ対象、それ以外（認証エラー等）は即失敗
+export const isRetryable = (e: unknown): boolean => {
+  if (e instanceof TimeoutError) return true;
+  if (e instanceof ProviderError) return e.status === undefined || e.status === 429 || e.status >= 500;
+  return e instanceof TypeError; // fetch のネットワークエラー
+};
+
+export const backoffDelay = (attempt: number): number =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// 全体のキャンセルと1リクエストごとのタイムアウトを束ねた signal で worker を実行する
+const runWithTimeout = async <R>(
+  work: (signal: AbortSignal) => Promise<R>,
+  timeoutSec: number,
+  parent: AbortSignal
+): Promise<R> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent.reason);
+  parent.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutSec)), timeoutSec * 1000);
+  try {
+    return await work(controller.signal);
+  } catch (e) {
+    // fetch は中断理由ではなく AbortError を投げるため、タイムアウトを判別できるよう置き換える
+    if (controller.signal.aborted && controller.signal.reason instanceof TimeoutError) throw controller.signal.reason;
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    parent.removeEventListener('abort', onAbort);
+  }
+};
+
+export const runBatch = async <T, R>(
+  items: { id: string; item: T }[],
+  worker: (item: T, signal: AbortSignal) => Promise<R>,
+  settings: RunnerSettings,
+  signal: AbortSignal,
+  onUpdate: (update: JobUpdate<R>) => void
+): Promise<void> => {
+  const queue = [...items];
+
+  const runJob = async ({ id, item }: { id: string; item: T }) => {
+    for (let attempt = 0; ; attempt++) {
+      if (signal.aborted) {
+        onUpdate({ id, status: 'cancelled', attempt });
+        return;
+      }
+      onUpdate({ id, status: attempt === 0 ? 'running' : 'retrying', attempt });
+      try {
+        const result = await runWithTimeout(s => worker(item, s), settings.timeoutSec, signal);
+        onUpdate({ id, status: 'done', attempt, result });
+        return;
+      } catch (error) {
+        if (signal.aborted) {
+          onUpdate({ id, status: 'cancelled', attempt, error });
+          return;
+        }
+        if (attempt >= settings.maxRetries || !isRetryable(error)) {
+          onUpdate({ id, status: 'failed', attempt, error });
+          return;
+        }
+        await sleep(backoffDelay(attempt), signal);
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(settings.concurrency, queue.length)) }, async () => {
+    while (queue.length > 0) {
+      const job = queue.shift();
+      if (job) await runJob(job);
+    }
+  });
+  await Promise.all(lanes);
+};
@@ -0,0 +1,126 @@
+import type { RankedArea, SkillCategory } from '../types'
+import type { DictionaryCategory, WeightedTerm } from './dictionary'
+import { DEFAULT_CATEGORIES, FALLBACK_CATEGORY, NEGATION_CUES, localizeCategory } from './dictionary'
+import { resolveColor } from './icons'
+import type { Locale } from './i18n'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, categoryEntry, entryName } from './taxonomy'
+
+// --- スコアリング設定 ---
+const NEGATION_WINDOW = 4;      // キーワード末尾から何文字以内の否定語を見るか
+const NEGATION_PENALTY = 0.5;   // 否定された語は重みの半分を減点
+const HEAD_BONUS = 0.5;         // 文末に近い語ほど加点（日本語は後ろが主動作）
+const SECONDARY_THRESHOLD = 0.2; // 2位をサブスキルとして扱う最低確信度
+
+export type Classification = {
+  ranking: RankedArea[];
+  primary: DictionaryCategory;
+  confidence: number;
+  secondary?: RankedArea;
+};
+
+// term の出現位置をすべて返す
+const findAll = (text: string, term: string): number[] => {
+  const hits: number[] = [];
+  if (!term) return hits;
+  let idx = text.indexOf(term);
+  while (idx !== -1) {
+    hits.push(idx);
+    idx = text.indexOf(term, idx + term.length);
+  }
+  return hits;
+};
+
+const isNegated = (text: string, end: number): boolean => {
+  const tail = text.slice(end, end + NEGATION_WINDOW);
+  return NEGATION_CUES.some(cue => tail.includes(cue));
+};
+
+const scoreTerms = (text: string, list: WeightedTerm[]): number => {
+  let score = 0;
+  for (const { term, weight = 1 } of list) {
+    for (const idx of findAll(text, term.toLowerCase())) {
+      const end = idx + term.length;
+      if (isNegated(text, end)) {
+        score -= weight * NEGATION_PENALTY;
+        continue;
+      }
+      score += weight * (1 + HEAD_BONUS * (end / text.length));
+    }
+  }
+  return score;
+};
+
+// 全カテゴリのスコアを算出し、確信度の高い順に並べる
+export const classifyText = (
+  inputText: string,
+  categories: DictionaryCategory[] = DEFAULT_CATEGORIES
+): Classification => {
+  const text = inputText.trim().toLowerCase();
+
+  const scored = categories
+    .map(cat => ({ cat, score: scoreTerms(text, cat.keywords) + scoreTerms(text, cat.phrases) }))
+    .filter(s => s.score > 0);
+
+  const total = scored.reduce((sum, s) => sum + s.score, 0);
+  const ranking: RankedArea[] = scored
+    .map(({ cat, score }) => ({
+      id: cat.id,
+      label: cat.label,
+      score: Math.round(score * 100) / 100,
+      confidence: score / total,
+    }))
+    // 同点の場合は辞書の並び順を優先（sort は安定ソート）
+    .sort((a, b) => b.score - a.score);
+
+  if (ranking.length === 0) {
+    return { ranking, primary: FALLBACK_CATEGORY, confidence: 0 };
+  }
+
+  const primary = categories.find(c => c.id === ranking[0].id) ?? FALLBACK_CATEGORY;
+  const second = ranking[1];
+  return {
+    ranking,
+    primary,
+    confidence: ranking[0].confidence,
+    secondary: second && second.confidence >= SECONDARY_THRESHOLD ? second : undefined,
+  };
+};
+
+// --- スタンダードモード（辞書ロジック） ---
+// language はカードに表示するラベル・説明の言語（キーワードの照合は辞書のまま行う）
+// ラベルは辞書カテゴリに対応する分類体系のエントリ名にする（対応がなければカテゴリ名のまま）
+export const analyzeTextStandard = (
+  inputText: string,
+  categories: DictionaryCategory[] = DEFAULT_CATEGORIES,
+  language: Locale = 'ja',
+  taxonomyId: TaxonomyId = DEFAULT_TAXONOMY
+): SkillCategory => {
+  const taxonomy = TAXONOMIES[taxonomyId];
+  const { ranking, primary, confidence, secondary } = classifyText(inputText, categories);
+  const labelOf = (category: DictionaryCategory) => {
+    const entry = categoryEntry(category, taxonomy);
+    return entry ? entryName(entry, language) : localizeCategory(category, language).label;
+  };
+  // 次点も分類体系のエントリ ID で表す。同じエントリに対応する辞書カテゴリは上位の 1 件だけ残す
+  const localize = (area: RankedArea): RankedArea => {
+    const category = categories.find(c => c.id === area.id);
+    return category ? { ...area, id: categoryEntry(category, taxonomy)?.id ?? area.id, label: labelOf(category) } : area;
+  };
+  const entry = categoryEntry(primary, taxonomy);
+  const seen = new Set([entry?.id ?? primary.id]);
+  const distinct = (area: RankedArea) => !seen.has(area.id) && !!seen.add(area.id);
+  const second = secondary && [localize(secondary)].find(distinct);
+  const runnersUp = ranking.slice(secondary ? 2 : 1).map(localize).filter(distinct);
+  return {
+    text: localizeCategory(primary, language).text,
+    label: labelOf(primary),
+    areaId: entry?.id,
+    iconKey: entry?.iconKey ?? primary.iconKey,
+    ...resolveColor(primary.color),
+    confidence: ranking.length > 0 ? confidence : undefined,
+    secondary: second,
+    runnersUp,
+    source: 'standard',
+  };
+};
@@ -0,0 +1,63 @@
+// --- CSV/TSV ユーティリティ ---
+
+// RFC 4180 準拠の簡易パーサ（ダブルクォート内の区切り文字・改行・"" エスケープに対応）
+export const parseCsv = (input: string, delimiter = ','): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const escapeField = (value: string, delimiter: string): string =>
+  /[",\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// 表計算ソフトが数式として実行しないよう、= + - @ ・タブ・改行で始まる文字列の先頭に ' を付ける（数値はそのまま）
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const guardFormula = (value: string | number): string =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+
+// toCsv で付けた ' を外す（書き出した CSV を読み戻すとき用）
+export const unguardFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+// Excel で文字化けしないよう BOM を付けて出力する
+export const toCsv = (rows: (string | number)[][], delimiter = ','): string =>
+  '\uFEFF' + rows.map(r => r.map(v => escapeField(guardFormula(v), delimiter)).join(delimiter)).join('\r\n');
@@ -0,0 +1,333 @@
+import { parseCsv, toCsv, unguardFormula } from './csv'
+import { isIconKey, isColorKey } from './icons'
+import type { Locale, Translate } from './i18n'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS } from './taxonomy'
+
+// --- 辞書定義（スタンダードモード） ---
+
+// 重み付きキーワード。weight 省略時は 1
+export type WeightedTerm = {
+  term: string;
+  weight?: number;
+};
+
+export type DictionaryCategory = {
+  id: string;
+  label: string;
+  text: string;
+  // 出力言語を英語にした場合のラベル・説明（未設定なら日本語を使う）
+  labelEn?: string;
+  textEn?: string;
+  iconKey: string;
+  color: string; // COLOR_PALETTE のキー
+  keywords: WeightedTerm[];
+  // 複合語・言い回し（単語より強い根拠として扱う）
+  phrases: WeightedTerm[];
+  // 分類体系ごとの対応エントリ ID（未設定なら標準カテゴリの既定の対応を使う）
+  areas?: Partial<Record<TaxonomyId, string>>;
+};
+
+// 部署ごとに切り替えられる名前付き辞書
+export type DictionaryProfile = {
+  id: string;
+  name: string;
+  categories: DictionaryCategory[];
+  updatedAt: number;
+};
+
+export const DICTIONARY_SCHEMA_VERSION = 1;
+
+// 1文字キーワードは誤検知しやすいため重みを下げる
+const terms = (list: string[], weight = 1): WeightedTerm[] =>
+  list.map(term => ({ term, weight: term.length === 1 ? weight * 0.5 : weight }));
+
+export const DEFAULT_CATEGORIES: DictionaryCategory[] = [
+  {
+    id: 'crisis',
+    label: 'クライシスマネジメント',
+    text: '不測の事態における迅速な課題解決とリスク極小化',
+    labelEn: 'Crisis Management',
+    textEn: 'Rapid problem resolution and risk minimization in unforeseen situations',
+    iconKey: 'AlertTriangle', color: 'red',
+    keywords: terms(['怒', 'クレーム', '苦情', '謝', '詫', 'トラブル', '事故', '緊急']),
+    phrases: terms(['苦情処理', '事故対応', '緊急対応', '再発防止', 'お詫び'], 2.5),
+  },
+  {
+    id: 'stakeholder',
+    label: 'ステークホルダーマネジメント',
+    text: '多様な関係者との利害調整および合意形成のリード',
+    labelEn: 'Stakeholder Management',
+    textEn: 'Leading consensus building and balancing interests across diverse stakeholders',
+    iconKey: 'Users', color: 'blue',
+    keywords: terms(['調整', '合意', '相談', '依頼', '電話', 'メール', '会議', '説明', '窓口', '対応']),
+    phrases: terms(['住民説明会', '関係課調整', '庁内調整', '合意形成', '窓口対応'], 2.5),
+  },
+  {
+    id: 'planning',
+    label: 'プロジェクト計画・構想',
+    text: '実現可能性を考慮した業務要件定義および実装計画の策定',
+    labelEn: 'Project Planning & Initiation',
+    textEn: 'Defining feasible business requirements and drafting implementation plans',
+    iconKey: 'FileText', color: 'purple',
+    keywords: terms(['企画', '案', '立案', '仕様', '要件', '検討', '決', 'ルール', '方針']),
+    phrases: terms(['計画策定', '要件定義', '仕様書作成', '事業計画', '予算要求'], 2.5),
+  },
+  {
+    id: 'quality',
+    label: '品質管理 (QA/QC)',
+    text: '成果物の品質基準策定および厳格な検証プロセスの遂行',
+    labelEn: 'Quality Management (QA/QC)',
+    textEn: 'Setting quality standards for deliverables and running rigorous verification',
+    iconKey: 'ShieldCheck', color: 'emerald',
+    keywords: terms(['チェック', '確認', 'ミス', '修正', '校正', 'テスト', '検算', '監査']),
+    phrases: terms(['ダブルチェック', '誤り防止', '内部監査', '受入検査'], 2.5),
+  },
+  {
+    id: 'schedule',
+    label: '工程管理 (Time Mgmt)',
+    text: 'WBSに基づく厳密な進捗管理とリソースの最適配分',
+    labelEn: 'Schedule Management',
+    textEn: 'WBS-based progress tracking and optimal allocation of resources',
+    iconKey: 'Layers', color: 'orange',
+    keywords: terms(['日程', 'スケジュール', '納期', '期限', '進行', '管理', '段取り', '工程']),
+    phrases: terms(['日程調整', '進捗管理', 'スケジュール調整', '工程表'], 2.5),
+  },
+  {
+    id: 'data',
+    label: 'データドリブン・オペレーション',
+    text: '定量的データに基づく業務プロセスの可視化と効率化',
+    labelEn: 'Data-Driven Operations',
+    textEn: 'Visualizing and streamlining business processes with quantitative data',
+    iconKey: 'Zap', color: 'yellow',
+    keywords: terms(['データ', '集計', '入力', 'エクセル', '数字', '分析', '計算', 'システム']),
+    phrases: terms(['データ分析', '統計資料', 'システム改修', 'RPA'], 2.5),
+  },
+];
+
+// どのカテゴリにも該当しない場合の既定値
+export const FALLBACK_CATEGORY: DictionaryCategory = {
+  id: 'general',
+  label: 'ジェネラル・アドミニストレーション',
+  text: '組織運営を円滑化するための定常業務の確実な遂行',
+  labelEn: 'General Administration',
+  textEn: 'Reliable execution of routine operations that keep the organization running smoothly',
+  iconKey: 'Briefcase', color: 'slate',
+  keywords: [],
+  phrases: [],
+};
+
+// キーワード直後に現れると否定とみなす語（例：「確認不要」「調整せず」）
+export const NEGATION_CUES = ['ない', 'なし', '無し', '不要', 'せず', 'しない', '対象外'];
+
+// 出力言語に合わせたラベル・説明。英語が未設定の場合、標準辞書から引き継いだカテゴリは標準の英訳を使う
+export const localizeCategory = (category: DictionaryCategory, language: Locale): { label: string; text: string } => {
+  if (language === 'ja') return { label: category.label, text: category.text };
+  const builtIn = [...DEFAULT_CATEGORIES, FALLBACK_CATEGORY].find(c => c.id === category.id && c.label === category.label);
+  return {
+    label: category.labelEn || builtIn?.labelEn || category.label,
+    text: category.textEn || (builtIn && builtIn.text === category.text ? builtIn.textEn : undefined) || category.text,
+  };
+};
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const createProfileId = () => `dict-${crypto.randomUUID()}`;
+
+export const createDefaultProfile = (): DictionaryProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: '標準辞書',
+  categories: DEFAULT_CATEGORIES.map(c => ({ ...c, keywords: [...c.keywords], phrases: [...c.phrases] })),
+  updatedAt: 0,
+});
+
+// --- キーワードの文字列表現（「クレーム, 苦情:2」形式） ---
+export const formatTerms = (list: WeightedTerm[]): string =>
+  list.map(({ term, weight = 1 }) => (weight === 1 ? term : `${term}:${weight}`)).join(', ');
+
+export const parseTerms = (value: string): WeightedTerm[] =>
+  value
+    .split(/[,、|\n]/)
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(s => {
+      const m = s.match(/^(.*?):(\d+(?:\.\d+)?)$/);
+      return m ? { term: m[1].trim(), weight: Number(m[2]) } : { term: s, weight: 1 };
+    })
+    .filter(t => t.term);
+
+// --- スキーマ検証 ---
+// エラーは表示する側で翻訳する（at は問題のある項目の位置、value は不正な値）
+export type ProfileErrorCode =
+  | 'rootNotObject' | 'unsupportedVersion' | 'nameRequired' | 'categoriesRequired'
+  | 'notObject' | 'required' | 'duplicateId' | 'notString' | 'invalidValue' | 'invalidTerms' | 'unknownTaxonomy'
+  | 'syntax' | 'csvRowsRequired' | 'csvMissingColumns';
+
+export type ProfileError = { code: ProfileErrorCode; at?: string; value?: string };
+
+export type ValidationResult =
+  | { ok: true; profile: DictionaryProfile }
+  | { ok: false; errors: ProfileError[] };
+
+export const describeProfileError = (t: Translate, { code, at = '', value = '' }: ProfileError) =>
+  t(`dictionary.error.${code}`, { at, value });
+
+const isTermList = (v: unknown): v is WeightedTerm[] =>
+  Array.isArray(v) &&
+  v.every(t => t && typeof t === 'object' && typeof t.term === 'string' && (t.weight === undefined || typeof t.weight === 'number'));
+
+export const validateProfile = (raw: unknown): ValidationResult => {
+  const errors: ProfileError[] = [];
+  if (!raw || typeof raw !== 'object') return { ok: false, errors: [{ code: 'rootNotObject' }] };
+  const data = raw as Record<string, unknown>;
+
+  if (data.version !== undefined && data.version !== DICTIONARY_SCHEMA_VERSION) {
+    errors.push({ code: 'unsupportedVersion', value: String(data.version) });
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) errors.push({ code: 'nameRequired' });
+  if (!Array.isArray(data.categories) || data.categories.length === 0) {
+    errors.push({ code: 'categoriesRequired' });
+    return { ok: false, errors };
+  }
+
+  const ids = new Set<string>();
+  const categories: DictionaryCategory[] = [];
+  data.categories.forEach((c: Record<string, unknown>, i: number) => {
+    const at = `categories[${i}]`;
+    if (!c || typeof c !== 'object') {
+      errors.push({ code: 'notObject', at });
+      return;
+    }
+    if (typeof c.id !== 'string' || !c.id) errors.push({ code: 'required', at: `${at}.id` });
+    else if (ids.has(c.id)) errors.push({ code: 'duplicateId', at: `${at}.id`, value: c.id });
+    else ids.add(c.id);
+    if (typeof c.label !== 'string' || !c.label) errors.push({ code: 'required', at: `${at}.label` });
+    if (typeof c.text !== 'string') errors.push({ code: 'notString', at: `${at}.text` });
+    if (!isIconKey(c.iconKey)) errors.push({ code: 'invalidValue', at: `${at}.iconKey`, value: String(c.iconKey) });
+    if (!isColorKey(c.color)) errors.push({ code: 'invalidValue', at: `${at}.color`, value: String(c.color) });
+    if (!isTermList(c.keywords)) errors.push({ code: 'invalidTerms', at: `${at}.keywords` });
+    if (c.phrases !== undefined && !isTermList(c.phrases)) errors.push({ code: 'invalidTerms', at: `${at}.phrases` });
+    for (const key of ['labelEn', 'textEn']) {
+      if (c[key] !== undefined && typeof c[key] !== 'string') errors.push({ code: 'notString', at: `${at}.${key}` });
+    }
+    const areas = c.areas && typeof c.areas === 'object' ? (c.areas as Record<string, unknown>) : {};
+    if (c.areas !== undefined && (!c.areas || typeof c.areas !== 'object')) errors.push({ code: 'notObject', at: `${at}.areas` });
+    for (const [key, value] of Object.entries(areas)) {
+      const taxonomy = TAXONOMY_IDS.find(id => id === key);
+      if (!taxonomy) errors.push({ code: 'unknownTaxonomy', at: `${at}.areas`, value: key });
+      else if (!TAXONOMIES[taxonomy].entries.some(e => e.id === value)) errors.push({ code: 'invalidValue', at: `${at}.areas.${key}`, value: String(value) });
+    }
+    categories.push({
+      id: String(c.id),
+      label: String(c.label),
+      text: String(c.text ?? ''),
+      ...(typeof c.labelEn === 'string' && c.labelEn ? { labelEn: c.labelEn } : {}),
+      ...(typeof c.textEn === 'string' && c.textEn ? { textEn: c.textEn } : {}),
+      iconKey: String(c.iconKey),
+      color: String(c.color),
+      keywords: isTermList(c.keywords) ? c.keywords : [],
+      phrases: isTermList(c.phrases) ? c.phrases : [],
+      ...(Object.keys(areas).length > 0 ? { areas: areas as DictionaryCategory['areas'] } : {}),
+    });
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    profile: {
+      id: typeof data.id === 'string' && data.id ? data.id : createProfileId(),
+      name: String(data.name).trim(),
+      categories,
+      updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
+    },
+  };
+};
+
+// --- JSON / CSV 入出力 ---
+export const exportProfileJson = (profile: DictionaryProfile): string =>
+  JSON.stringify({ version: DICTIONARY_SCHEMA_VERSION, ...profile }, null, 2);
+
+export const importProfileJson = (json: string): ValidationResult => {
+  try {
+    return validateProfile(JSON.parse(json));
+  } catch (e) {
+    return { ok: false, errors: [{ code: 'syntax', value: (e as Error).message }] };
+  }
+};
+
+const CSV_HEADER = ['id', 'label', 'text', 'iconKey', 'color', 'keywords', 'phrases', 'labelEn', 'textEn', ...TAXONOMY_IDS];
+// 旧バージョンで書き出したCSVにない列
+const OPTIONAL_COLUMNS = ['phrases', 'labelEn', 'textEn', ...TAXONOMY_IDS];
+
+export const exportProfileCsv = (profile: DictionaryProfile): string =>
+  toCsv([
+    CSV_HEADER,
+    ...profile.categories.map(c => [
+      c.id, c.label, c.text, c.iconKey, c.color, formatTerms(c.keywords), formatTerms(c.phrases), c.labelEn ?? '', c.textEn ?? '',
+      ...TAXONOMY_IDS.map(id => c.areas?.[id] ?? ''),
+    ]),
+  ]);
+
+// CSV には辞書名を持たないため、ファイル名などから name を渡す
+export const importProfileCsv = (csv: string, name: string): ValidationResult => {
+  const rows = parseCsv(csv).filter(r => r.some(cell => cell.trim()));
+  if (rows.length < 2) return { ok: false, errors: [{ code: 'csvRowsRequired' }] };
+
+  const header = rows[0].map(h => h.trim());
+  const missing = CSV_HEADER.filter(h => !OPTIONAL_COLUMNS.includes(h) && !header.includes(h));
+  if (missing.length > 0) return { ok: false, errors: [{ code: 'csvMissingColumns', value: missing.join(', ') }] };
+
+  const col = (row: string[], key: string) => {
+    const idx = header.indexOf(key);
+    return idx === -1 ? '' : unguardFormula((row[idx] ?? '').trim());
+  };
+  return validateProfile({
+    version: DICTIONARY_SCHEMA_VERSION,
+    name,
+    categories: rows.slice(1).map(r => ({
+      id: col(r, 'id'),
+      label: col(r, 'label'),
+      text: col(r, 'text'),
+      iconKey: col(r, 'iconKey'),
+      color: col(r, 'color'),
+      keywords: parseTerms(col(r, 'keywords')),
+      phrases: parseTerms(col(r, 'phrases')),
+      labelEn: col(r, 'labelEn') || undefined,
+      textEn: col(r, 'textEn') || undefined,
+      // 空欄の列は既定の対応を使う
+      areas: Object.fromEntries(TAXONOMY_IDS.map(id => [id, col(r, id)]).filter(([, value]) => value)),
+    })),
+  });
+};
+
+// --- localStorage 永続化 ---
+const PROFILES_KEY = 'pm_dictionary_profiles';
+const ACTIVE_KEY = 'pm_dictionary_active';
+
+export const loadProfiles = (): DictionaryProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        const profiles = parsed
+          .map(p => validateProfile(p))
+          .flatMap(r => (r.ok ? [r.profile] : []));
+        if (profiles.length > 0) return profiles;
+      }
+    }
+  } catch {
+    // 壊れたデータは無視して既定の辞書に戻す
+  }
+  return [createDefaultProfile()];
+};
+
+export const saveProfiles = (profiles: DictionaryProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = (): string => localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE_ID;
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
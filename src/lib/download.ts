@@ -0,0 +1,13 @@
+// --- ファイルダウンロード ---
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるため、少し待ってから解放する
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (filename: string, content: string, mimeType: string) =>
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
@@ -0,0 +1,67 @@
+import type { TaxonomyId } from './taxonomy'
+
+// --- 評価用のラベル付きコーパス（自治体の典型的な業務） ---
+// 正解は辞書の挙動ではなく、PMの実務家が各体系で選ぶ分類先を付けている
+export type EvalCase = {
+  id: string;
+  text: string;
+  expected: Record<TaxonomyId, string>;
+};
+
+const item = (id: string, text: string, pmbok6: string, pmbok7: string, eco: string): EvalCase => ({
+  id,
+  text,
+  expected: { pmbok6: `pmbok6.${pmbok6}`, pmbok7: `pmbok7.${pmbok7}`, eco: `eco.${eco}` },
+});
+
+export const EVAL_CORPUS: EvalCase[] = [
+  // リスク・危機対応
+  item('c01', '台風の接近に備えて災害対策本部の設置手順を確認し、避難所の開設準備を進めた', 'risk', 'uncertainty', 'process.3'),
+  item('c02', 'システム障害が発生した場合の業務継続計画（BCP）を見直した', 'risk', 'uncertainty', 'process.3'),
+  item('c03', '公金の誤送金事故が起きた際の対応手順と再発防止策を整理した', 'risk', 'uncertainty', 'process.3'),
+  item('c04', '夏祭りの開催に伴う事故のリスクを洗い出し、対応策を関係課と協議した', 'risk', 'uncertainty', 'process.3'),
+  // ステークホルダー
+  item('c05', '道路改良工事について住民説明会を開催し、地元の合意形成を図った', 'stakeholder', 'stakeholders', 'process.4'),
+  item('c06', '商店街や自治会と意見交換会を重ね、事業への協力を取り付けた', 'stakeholder', 'stakeholders', 'people.9'),
+  item('c07', '議会答弁の作成にあたり関係部局の意見を取りまとめた', 'stakeholder', 'stakeholders', 'process.4'),
+  item('c08', 'パブリックコメントを実施し、寄せられた意見への対応方針を整理した', 'stakeholder', 'stakeholders', 'process.4'),
+  // スコープ・計画
+  item('c09', '新規事業の目的と対象範囲を整理し、事業計画書を作成した', 'scope', 'planning', 'process.8'),
+  item('c10', '基幹システム更新の要件定義を行い、仕様書を作成した', 'scope', 'planning', 'process.8'),
+  item('c11', '補助金制度の対象者と対象経費の範囲を定めた要綱を作成した', 'scope', 'planning', 'process.8'),
+  item('c12', '住民からの追加要望を受け、事業内容の変更の可否を検討した', 'integration', 'project-work', 'process.10'),
+  // 品質
+  item('c13', '給付金の支給事務で申請書の審査をダブルチェックし、誤りを防いだ', 'quality', 'delivery', 'process.7'),
+  item('c14', '窓口業務のマニュアルを改訂し、処理ミスを減らした', 'quality', 'delivery', 'process.7'),
+  item('c15', '委託業者の成果物を検査し、仕様書どおりか確認した', 'quality', 'delivery', 'process.7'),
+  item('c16', '個人情報保護の観点から業務手順を点検し、規程を整備した', 'quality', 'delivery', 'business.1'),
+  // スケジュール
+  item('c17', '選挙事務の工程表を作成し、投票日までの進捗を管理した', 'schedule', 'planning', 'process.6'),
+  item('c18', '庁舎移転作業のスケジュールを関係課と調整した', 'schedule', 'planning', 'process.6'),
+  item('c19', 'システム改修の遅れを受けてリリース日程を見直した', 'schedule', 'planning', 'process.6'),
+  // コスト
+  item('c20', '年度末の予算執行状況を確認し、不用額の見込みをまとめた', 'cost', 'measurement', 'process.5'),
+  item('c21', '次年度の予算要求のため事業費を積算した', 'cost', 'planning', 'process.5'),
+  item('c22', '委託料の見積りを比較し、費用を削減した', 'cost', 'project-work', 'process.5'),
+  // 調達
+  item('c23', '入札公告と仕様書を作成し、一般競争入札を実施した', 'procurement', 'project-work', 'process.11'),
+  item('c24', 'プロポーザル方式で委託事業者を選定した', 'procurement', 'project-work', 'process.11'),
+  item('c25', '委託契約の履行状況を確認し、契約変更の手続きを行った', 'procurement', 'project-work', 'process.11'),
+  // 資源・チーム
+  item('c26', '係内の業務分担を見直し、繁忙期の応援体制を組んだ', 'resource', 'team', 'people.3'),
+  item('c27', '新規採用職員の OJT を担当し、業務の手順書を作成した', 'resource', 'team', 'people.5'),
+  item('c28', '会計年度任用職員の配置計画を作成した', 'resource', 'planning', 'process.5'),
+  item('c29', '職員間の意見の対立を調整し、チームの方針をまとめた', 'resource', 'team', 'people.1'),
+  // コミュニケーション
+  item('c30', '庁内向けに事業の進捗報告を毎月発信した', 'communications', 'stakeholders', 'process.2'),
+  item('c31', '広報紙とホームページで新制度の周知を行った', 'communications', 'stakeholders', 'process.2'),
+  item('c32', '会議録を作成し、関係者に決定事項を共有した', 'communications', 'project-work', 'process.2'),
+  item('c33', '定例会議の運営方法を見直し、情報共有の仕組みを整えた', 'communications', 'project-work', 'process.2'),
+  // 統合・測定
+  item('c34', '複数課にまたがる DX 推進事業の全体調整を担当した', 'integration', 'project-work', 'process.9'),
+  item('c35', '総合計画の進捗を取りまとめ、施策評価を行った', 'integration', 'measurement', 'business.2'),
+  item('c36', '統計データを分析して施策の効果を検証した', 'integration', 'measurement', 'business.2'),
+  item('c37', 'RPA を導入して定型業務の処理時間を削減した', 'quality', 'delivery', 'business.4'),
+  item('c38', '事業の完了に伴い実績報告書を作成し、事業を終結した', 'integration', 'delivery', 'process.17'),
+  item('c39', '担当者の異動に備えて業務の引継ぎ書を作成した', 'integration', 'project-work', 'process.16'),
+];
@@ -0,0 +1,229 @@
+import type { ResultSource } from '../types'
+import type { DictionaryCategory } from './dictionary'
+import type { LLMProvider, ProviderId } from './providers'
+import type { AIContext } from './ai'
+import { translateWithAI, buildSystemPrompt } from './ai'
+import { analyzeTextStandard } from './classifier'
+import type { RedactionSettings } from './redaction'
+import type { Locale } from './i18n'
+import type { EvalCase } from './evalCorpus'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES, TAXONOMY_IDS, isTaxonomyId } from './taxonomy'
+
+// --- 分類精度の評価（辞書の編集やプロンプトの変更の効果を測る） ---
+export type EvalMode = 'standard' | 'ai';
+
+export type EvalPrediction = {
+  caseId: string;
+  text: string;
+  expected: string;
+  predicted?: string; // 分類体系のエントリ ID（対応なし・エラーは未設定）
+  source?: ResultSource;
+  error?: string;
+};
+
+export type ClassMetrics = {
+  id: string;
+  support: number; // 正解がこのエントリの件数
+  predicted: number; // このエントリと予測した件数
+  correct: number;
+  precision?: number; // 予測が 0 件のときは未定義
+  recall?: number; // 正解が 0 件のときは未定義
+};
+
+export type EvalReport = {
+  taxonomy: TaxonomyId;
+  mode: EvalMode;
+  runner: string; // 表示用（辞書名・プロバイダ名など）
+  total: number;
+  correct: number;
+  accuracy: number;
+  classes: ClassMetrics[];
+  labels: string[]; // 混同行列の行・列（UNMAPPED は末尾）
+  confusion: number[][]; // [正解][予測]
+  predictions: EvalPrediction[];
+};
+
+// 分類体系に対応しない予測・エラーを混同行列でまとめる列
+export const UNMAPPED = '(none)';
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : undefined);
+
+export const scorePredictions = (predictions: EvalPrediction[], taxonomyId: TaxonomyId, mode: EvalMode, runner: string): EvalReport => {
+  const seen = new Set(predictions.flatMap(p => [p.expected, p.predicted ?? UNMAPPED]));
+  // 行・列は体系の並び順にそろえ、コーパスにも予測にも出てこないエントリは省く
+  const labels = [...TAXONOMIES[taxonomyId].entries.map(e => e.id), UNMAPPED].filter(id => seen.has(id));
+  const index = new Map(labels.map((id, i) => [id, i]));
+  const confusion = labels.map(() => labels.map(() => 0));
+  for (const p of predictions) {
+    const row = index.get(p.expected);
+    const col = index.get(p.predicted ?? UNMAPPED);
+    if (row !== undefined && col !== undefined) confusion[row][col]++;
+  }
+
+  const classes = labels.filter(id => id !== UNMAPPED).map((id, i) => {
+    const support = confusion[i].reduce((sum, n) => sum + n, 0);
+    const predicted = confusion.reduce((sum, row) => sum + row[i], 0);
+    const correct = confusion[i][i];
+    return { id, support, predicted, correct, precision: ratio(correct, predicted), recall: ratio(correct, support) };
+  });
+  const correct = predictions.filter(p => p.predicted === p.expected).length;
+  return {
+    taxonomy: taxonomyId,
+    mode,
+    runner,
+    total: predictions.length,
+    correct,
+    accuracy: ratio(correct, predictions.length) ?? 0,
+    classes,
+    labels,
+    confusion,
+    predictions,
+  };
+};
+
+// --- スタンダードモード ---
+export const evaluateStandard = (
+  cases: EvalCase[],
+  categories: DictionaryCategory[],
+  taxonomyId: TaxonomyId,
+  runner: string
+): EvalReport => {
+  const predictions = cases.map(c => {
+    const result = analyzeTextStandard(c.text, categories, 'ja', taxonomyId);
+    return { caseId: c.id, text: c.text, expected: c.expected[taxonomyId], predicted: result.areaId, source: result.source };
+  });
+  return scorePredictions(predictions, taxonomyId, 'standard', runner);
+};
+
+// --- AIモード（応答の録画と再生） ---
+// 録画した応答を再生すれば、ネットワークなしで同じ評価を再現できる
+export type EvalRecording = {
+  version: 1;
+  taxonomy: TaxonomyId;
+  language: Locale;
+  provider: ProviderId;
+  providerName: string;
+  model: string;
+  prompt: string; // 録画時のシステムプロンプト
+  redaction: RedactionSettings; // 再生時に同じ送信内容を作るための設定
+  recordedAt: string;
+  responses: Record<string, string[]>; // 送信内容（伏せ字処理後）ごとの応答（修復依頼への応答を含む順）
+};
+
+const RECORDING_VERSION = 1;
+
+const firstUserMessage = (messages: { role: string; content: string }[]) => messages.find(m => m.role === 'user')?.content ?? '';
+
+// 実際のプロバイダを呼び出しつつ応答を記録する
+export const recordingProvider = (base: LLMProvider, responses: Record<string, string[]>): LLMProvider => ({
+  ...base,
+  complete: async (req, config, apiKey) => {
+    const response = await base.complete(req, config, apiKey);
+    const key = firstUserMessage(req.messages);
+    responses[key] = [...(responses[key] ?? []), response.text];
+    return response;
+  },
+});
+
+// 修復依頼の回数（アシスタントの発言数）に応じて、録画した応答を順に返す
+export const replayProvider = (recording: EvalRecording): LLMProvider => ({
+  id: recording.provider,
+  name: `${recording.providerName} (replay)`,
+  description: '',
+  requiresApiKey: false,
+  defaults: { baseUrl: 'replay://local', model: recording.model },
+  complete: async (req) => {
+    const recorded = recording.responses[firstUserMessage(req.messages)];
+    const attempt = req.messages.filter(m => m.role === 'assistant').length;
+    if (!recorded?.[attempt]) throw new Error('録画に含まれていない送信内容です。AIで評価し直して録画を更新してください');
+    return { text: recorded[attempt] };
+  },
+});
+
+// プロンプトを変更した後の再生は、変更前の応答を評価していることになる
+export const isRecordingStale = (recording: EvalRecording) =>
+  recording.prompt !== buildSystemPrompt(recording.language, recording.taxonomy);
+
+export const parseRecording = (json: string): EvalRecording => {
+  const data = JSON.parse(json) as Partial<EvalRecording>;
+  if (!data || typeof data !== 'object') throw new Error('録画ファイルのルートがオブジェクトではありません');
+  if (data.version !== RECORDING_VERSION) throw new Error(`未対応の録画バージョンです: ${String(data.version)}`);
+  if (!isTaxonomyId(data.taxonomy)) throw new Error(`taxonomy は ${TAXONOMY_IDS.join(' / ')} のいずれかである必要があります`);
+  if (!data.responses || typeof data.responses !== 'object') throw new Error('responses がありません');
+  if (!data.redaction || typeof data.redaction !== 'object') throw new Error('redaction がありません');
+  return data as EvalRecording;
+};
+
+export type AIEvalOptions = {
+  runner: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+};
+
+// レート制限を避けるため1件ずつ順に送る
+export const evaluateAI = async (
+  cases: EvalCase[],
+  ctx: AIContext,
+  options: AIEvalOptions
+): Promise<{ report: EvalReport; recording: EvalRecording }> => {
+  const responses: Record<string, string[]> = {};
+  const recorded = { ...ctx, provider: recordingProvider(ctx.provider, responses) };
+  const predictions: EvalPrediction[] = [];
+
+  for (const c of cases) {
+    options.signal?.throwIfAborted();
+    const base = { caseId: c.id, text: c.text, expected: c.expected[ctx.taxonomy] };
+    try {
+      const { result } = await translateWithAI(c.text, recorded, options.signal);
+      predictions.push({ ...base, predicted: result.areaId, source: result.source });
+    } catch (e) {
+      if (options.signal?.aborted) throw e;
+      predictions.push({ ...base, error: e instanceof Error ? e.message : String(e) });
+    }
+    options.onProgress?.(predictions.length, cases.length);
+  }
+
+  return {
+    report: scorePredictions(predictions, ctx.taxonomy, 'ai', options.runner),
+    recording: {
+      version: RECORDING_VERSION,
+      taxonomy: ctx.taxonomy,
+      language: ctx.language,
+      provider: ctx.provider.id,
+      providerName: ctx.provider.name,
+      model: ctx.config.model,
+      prompt: buildSystemPrompt(ctx.language, ctx.taxonomy),
+      redaction: ctx.redaction,
+      recordedAt: new Date().toISOString(),
+      responses,
+    },
+  };
+};
+
+// --- テキスト形式のレポート（Node スクリプト・ダウンロード用） ---
+const percent = (value?: number) => (value === undefined ? '-' : `${(value * 100).toFixed(1)}%`);
+
+export const formatReport = (report: EvalReport): string => {
+  const width = Math.max(...report.labels.map(l => l.length), 8) + 4; // 混同行列の行は「番号. ID」
+  const lines = [
+    `Taxonomy: ${TAXONOMIES[report.taxonomy].name}`,
+    `Runner: ${report.runner}`,
+    `Accuracy: ${report.correct}/${report.total} (${percent(report.accuracy)})`,
+    '',
+    `${'class'.padEnd(width)}  support  predicted  precision  recall`,
+    ...report.classes.map(c =>
+      `${c.id.padEnd(width)}  ${String(c.support).padStart(7)}  ${String(c.predicted).padStart(9)}  ${percent(c.precision).padStart(9)}  ${percent(c.recall).padStart(6)}`
+    ),
+    '',
+    'Confusion matrix (rows: expected, columns: predicted)',
+    `${''.padEnd(width)}  ${report.labels.map((_, i) => String(i + 1).padStart(3)).join('')}`,
+    ...report.confusion.map((row, i) => `${`${i + 1}. ${report.labels[i]}`.padEnd(width)}  ${row.map(n => String(n || '.').padStart(3)).join('')}`),
+  ];
+  const misses = report.predictions.filter(p => p.predicted !== p.expected);
+  if (misses.length > 0) {
+    lines.push('', 'Misclassified:');
+    lines.push(...misses.map(p => `- ${p.caseId} ${p.expected} -> ${p.predicted ?? p.error ?? UNMAPPED}: ${p.text}`));
+  }
+  return lines.join('\n');
+};
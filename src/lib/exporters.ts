@@ -0,0 +1,191 @@
+import type { Mode, Task, SkillCategory } from '../types'
+import type { SavedSession } from './history'
+import { downloadText } from './download'
+import type { Locale } from './i18n'
+import { translate } from './i18n'
+import type { MessageKey } from './messages'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, taxonomyName } from './taxonomy'
+
+// --- 経歴書のエクスポート（PDF・Markdown・Word・JSON） ---
+export type ExportFormat = 'pdf' | 'markdown' | 'word' | 'json';
+
+// どの形式にも同じ内容（ラベル・説明・実績の箇条書き・元の業務）を載せる
+export type PortfolioEntry = {
+  task: string;
+  label: string;
+  areaId?: string; // 分類体系のエントリ ID
+  text: string;
+  bullets?: string[];
+  secondary?: string;
+};
+
+export type PortfolioDocument = {
+  version: 1;
+  title: string;
+  exportedAt: string;
+  mode: Mode;
+  dictionary?: string;
+  provider?: string;
+  model?: string;
+  language: Locale;
+  taxonomy: TaxonomyId;
+  entries: PortfolioEntry[];
+};
+
+type SessionInfo = Pick<SavedSession, 'title' | 'mode' | 'dictionary' | 'provider' | 'model' | 'language' | 'taxonomy'>;
+
+export const EXPORT_FORMATS: { id: ExportFormat; extension: string }[] = [
+  { id: 'pdf', extension: 'pdf' },
+  { id: 'markdown', extension: 'md' },
+  { id: 'word', extension: 'doc' },
+  { id: 'json', extension: 'json' },
+];
+
+// エラーのカード・未完了のタスクは出力しない
+export const buildPortfolio = (
+  session: SessionInfo,
+  tasks: Task[],
+  results: Record<string, SkillCategory>,
+  date = new Date()
+): PortfolioDocument => ({
+  version: 1,
+  title: session.title,
+  exportedAt: date.toISOString(),
+  mode: session.mode,
+  dictionary: session.dictionary,
+  provider: session.provider,
+  model: session.model,
+  language: session.language ?? 'ja',
+  taxonomy: session.taxonomy ?? DEFAULT_TAXONOMY,
+  entries: tasks
+    .filter(t => results[t.id] && !results[t.id].isError)
+    .map(t => {
+      const r = results[t.id];
+      return {
+        task: t.text,
+        label: r.label,
+        ...(r.areaId ? { areaId: r.areaId } : {}),
+        text: r.text,
+        ...(r.bullets?.length ? { bullets: r.bullets } : {}),
+        ...(r.secondary ? { secondary: r.secondary.label } : {}),
+      };
+    }),
+});
+
+const formatDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// ファイル名に使えない文字を除き「日付_タイトル.拡張子」にする
+export const exportFilename = (title: string, extension: string, date = new Date()) => {
+  const safeTitle = title.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60);
+  return `${formatDay(date)}${safeTitle ? `_${safeTitle}` : ''}.${extension}`;
+};
+
+const describeSource = (doc: PortfolioDocument) =>
+  doc.mode === 'ai'
+    ? translate(doc.language, 'portfolio.sourceAi', { provider: doc.provider ?? '', model: doc.model ?? '' })
+    : translate(doc.language, 'portfolio.sourceStandard', { dictionary: doc.dictionary ?? '' });
+
+// --- Markdown ---
+export const toMarkdown = (doc: PortfolioDocument): string => {
+  const t = (key: MessageKey) => translate(doc.language, key);
+  const lines = [
+    `# ${doc.title}`,
+    '',
+    `- ${t('portfolio.exportedAt')}: ${formatDay(new Date(doc.exportedAt))}`,
+    `- ${t('portfolio.method')}: ${describeSource(doc)}`,
+    `- ${t('portfolio.framework')}: ${taxonomyName(TAXONOMIES[doc.taxonomy], doc.language)}`,
+    '',
+  ];
+  for (const entry of doc.entries) {
+    lines.push(`## ${entry.label}`, '', entry.text, '');
+    if (entry.bullets) lines.push(...entry.bullets.map(b => `- ${b}`), '');
+    lines.push(`- ${t('portfolio.task')}: ${entry.task}`);
+    if (entry.secondary) lines.push(`- ${t('portfolio.related')}: ${entry.secondary}`);
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+// --- HTML（印刷用PDF・Word共通） ---
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] ?? c);
+
+const DOCUMENT_STYLE = `
+  @page { size: A4; margin: 20mm; }
+  body { font-family: "Hiragino Sans", "Yu Gothic", "Meiryo", sans-serif; color: #1e293b; line-height: 1.6; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; }
+  .meta { font-size: 9pt; color: #64748b; margin-bottom: 16pt; }
+  .entry { break-inside: avoid; page-break-inside: avoid; border-top: 1px solid #e2e8f0; padding: 10pt 0; }
+  h2 { font-size: 13pt; margin: 0 0 4pt; }
+  p { margin: 0 0 4pt; font-size: 10.5pt; }
+  ul { margin: 0 0 4pt; padding-left: 16pt; font-size: 10pt; }
+  .task { font-size: 9pt; color: #64748b; }
+`;
+
+export const toHtml = (doc: PortfolioDocument, forWord = false): string => {
+  const t = (key: MessageKey) => escapeHtml(translate(doc.language, key));
+  const entries = doc.entries
+    .map(e => `
+  <div class="entry">
+    <h2>${escapeHtml(e.label)}</h2>
+    <p>${escapeHtml(e.text)}</p>${e.bullets ? `
+    <ul>${e.bullets.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>` : ''}
+    <p class="task">${t('portfolio.task')}: ${escapeHtml(e.task)}${e.secondary ? ` / ${t('portfolio.related')}: ${escapeHtml(e.secondary)}` : ''}</p>
+  </div>`)
+    .join('');
+  // Word は Office 名前空間付きの HTML をそのまま文書として開ける
+  const htmlAttrs = forWord
+    ? ' xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40"'
+    : '';
+  return `<!DOCTYPE html>
+<html lang="${doc.language}"${htmlAttrs}>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(doc.title)}</title>
+  <style>${DOCUMENT_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(doc.title)}</h1>
+  <div class="meta">${t('portfolio.exportedAt')}: ${formatDay(new Date(doc.exportedAt))} / ${t('portfolio.method')}: ${escapeHtml(describeSource(doc))} / ${t('portfolio.framework')}: ${escapeHtml(taxonomyName(TAXONOMIES[doc.taxonomy], doc.language))}</div>${entries}
+</body>
+</html>`;
+};
+
+export const toJson = (doc: PortfolioDocument): string => JSON.stringify(doc, null, 2);
+
+// PDF はブラウザの印刷機能で作る（日本語フォントをそのまま使え、テキストとして選択・コピーできる）
+const printHtml = (html: string, title: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  // 置換文字列にすると題名の「$&」などが置換パターンとして展開されるため、関数で置き換える
+  frame.srcdoc = html.replace(/<title>.*<\/title>/, () => `<title>${escapeHtml(title)}</title>`);
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
+
+export const exportPortfolio = (format: ExportFormat, doc: PortfolioDocument) => {
+  const extension = EXPORT_FORMATS.find(f => f.id === format)?.extension ?? format;
+  const filename = exportFilename(doc.title, extension, new Date(doc.exportedAt));
+  switch (format) {
+    case 'pdf':
+      // 保存ダイアログの既定ファイル名は文書タイトルから決まる
+      return printHtml(toHtml(doc), filename.replace(/\.pdf$/, ''));
+    case 'markdown':
+      return downloadText(filename, toMarkdown(doc), 'text/markdown');
+    case 'word':
+      return downloadText(filename, toHtml(doc, true), 'application/msword');
+    case 'json':
+      return downloadText(filename, toJson(doc), 'application/json');
+  }
+};
@@ -0,0 +1,116 @@
+import type { Mode, SkillCategory, TaskDetail } from '../types'
+import type { Locale } from './i18n'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, entryName } from './taxonomy'
+
+// --- セッション履歴（IndexedDB） ---
+export type SavedSession = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  mode: Mode;
+  // スタンダードモードは辞書名、AIモードはプロバイダ名とモデル名を記録する
+  dictionary?: string;
+  provider?: string;
+  model?: string;
+  language?: Locale; // 経歴書の出力言語（旧バージョンの履歴は日本語）
+  taxonomy?: TaxonomyId; // 分類先の PM フレームワーク（旧バージョンの履歴は PMBOK 第6版）
+  inputs: string[];
+  results: SkillCategory[];
+  details?: TaskDetail[]; // inputs と同じ順の工数・頻度など（旧バージョンの履歴にはない）
+};
+
+const DB_NAME = 'gov-pm-translator';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 新しい順に返す
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await withStore<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const putSession = (session: SavedSession) => withStore('readwrite', store => store.put(session));
+
+export const deleteSession = (id: string) => withStore('readwrite', store => store.delete(id));
+
+export const createSessionId = () => `session-${crypto.randomUUID()}`;
+
+export const defaultSessionTitle = (date = new Date(), locale: Locale = 'ja') => {
+  const day = `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+  return locale === 'ja' ? `${day} の業務棚卸し` : `Task inventory ${day}`;
+};
+
+// 新しい経歴書の識別情報（ID・既定タイトル・作成日時）
+export const createSessionStamp = (locale: Locale = 'ja') => ({ id: createSessionId(), title: defaultSessionTitle(new Date(), locale), createdAt: Date.now() });
+
+// 更新日時を付けて保存する
+export const saveSession = (session: Omit<SavedSession, 'updatedAt'>) => putSession({ ...session, updatedAt: Date.now() });
+
+export const duplicateSession = (session: SavedSession, suffix = '（コピー）'): SavedSession => {
+  const now = Date.now();
+  return { ...structuredClone(session), id: createSessionId(), title: `${session.title}${suffix}`, createdAt: now, updatedAt: now };
+};
+
+// --- 比較（知識エリアごとの件数差） ---
+export type ComparisonRow = {
+  key: string; // 分類体系のエントリ ID（ない場合はラベル）
+  label: string;
+  left: number;
+  right: number;
+};
+
+// 分類体系のエントリ ID で数える（出力言語が違っても同じ分類先として比べられる）。ID がない結果はラベルで数える
+const countAreas = (session: SavedSession, locale: Locale, labels: Map<string, string>): Map<string, number> => {
+  const taxonomy = TAXONOMIES[session.taxonomy ?? DEFAULT_TAXONOMY];
+  const counts = new Map<string, number>();
+  for (const r of session.results) {
+    if (r.isError) continue;
+    const key = r.areaId ?? `label:${r.label}`;
+    const entry = r.areaId ? taxonomy.entries.find(e => e.id === r.areaId) : undefined;
+    if (!labels.has(key)) labels.set(key, entry ? entryName(entry, locale) : r.label);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+};
+
+export const compareSessions = (left: SavedSession, right: SavedSession, locale: Locale = 'ja'): ComparisonRow[] => {
+  const labels = new Map<string, string>();
+  const a = countAreas(left, locale, labels);
+  const b = countAreas(right, locale, labels);
+  return [...labels.keys()]
+    .map(key => ({ key, label: labels.get(key) ?? key, left: a.get(key) ?? 0, right: b.get(key) ?? 0 }))
+    .sort((x, y) => y.left + y.right - (x.left + x.right));
+};
@@ -0,0 +1,48 @@
+import { createContext, useContext } from 'react'
+import type { MessageKey } from './messages'
+import { MESSAGES } from './messages'
+
+// --- 多言語対応（画面の表示言語と、経歴書の出力言語は別々に選べる） ---
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'ja', label: '日本語' },
+  { id: 'en', label: 'English' },
+];
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+// 「{count} 件」のような埋め込みを置き換える。訳が欠けている場合は日本語を使う
+export const translate = (locale: Locale, key: MessageKey, params?: TranslateParams): string => {
+  const message = MESSAGES[locale][key] ?? MESSAGES.ja[key];
+  return params ? message.replace(/\{(\w+)\}/g, (m, name: string) => (name in params ? String(params[name]) : m)) : message;
+};
+
+export const createTranslator = (locale: Locale): Translate => (key, params) => translate(locale, key, params);
+
+export const I18nContext = createContext<Translate>(createTranslator('ja'));
+
+export const useI18n = () => useContext(I18nContext);
+
+// --- localStorage 永続化 ---
+const UI_LOCALE_KEY = 'pm_ui_locale';
+const OUTPUT_LANGUAGE_KEY = 'pm_output_language';
+
+const isLocale = (value: unknown): value is Locale => value === 'ja' || value === 'en';
+
+// 初回はブラウザの言語設定に合わせる
+export const loadUiLocale = (): Locale => {
+  const saved = localStorage.getItem(UI_LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+};
+
+export const saveUiLocale = (locale: Locale) => localStorage.setItem(UI_LOCALE_KEY, locale);
+
+export const loadOutputLanguage = (): Locale => {
+  const saved = localStorage.getItem(OUTPUT_LANGUAGE_KEY);
+  return isLocale(saved) ? saved : 'ja';
+};
+
+export const saveOutputLanguage = (language: Locale) => localStorage.setItem(OUTPUT_LANGUAGE_KEY, language);
@@ -0,0 +1,44 @@
+import type { LucideIcon } from 'lucide-react'
+import {
+  AlertTriangle, Users, FileText, ShieldCheck, Layers, Zap, Briefcase, AlertCircle,
+  Calculator, Building2, HeartHandshake, Landmark, Monitor, HardHat, Wallet, ClipboardList, XCircle,
+  CalendarClock, Coins, MessagesSquare, GitBranch, Package, Gauge, Shield, Target, Network, Flag, Puzzle, Compass,
+  RefreshCw, TrendingUp
+} from 'lucide-react'
+
+// アイコンマップ（辞書・分類体系の iconKey から解決する）
+export const ICON_MAP: Record<string, LucideIcon> = {
+  AlertTriangle, Users, FileText, ShieldCheck, Layers, Zap, Briefcase, AlertCircle,
+  Calculator, Building2, HeartHandshake, Landmark, Monitor, HardHat, Wallet, ClipboardList, XCircle,
+  CalendarClock, Coins, MessagesSquare, GitBranch, Package, Gauge, Shield, Target, Network, Flag, Puzzle, Compass,
+  RefreshCw, TrendingUp
+};
+
+// 履歴・共有リンクなど外から来たキーは、Object のプロトタイプのプロパティ（constructor など）を拾わないよう自身のキーだけを認める
+export const isIconKey = (key: unknown): key is string => typeof key === 'string' && Object.hasOwn(ICON_MAP, key);
+
+// カラーパレット（Tailwind のクラス名はビルド時に検出できるよう完全な文字列で記述する）
+export const COLOR_PALETTE: Record<string, { color: string; bg: string }> = {
+  red: { color: 'text-red-600', bg: 'bg-red-50' },
+  blue: { color: 'text-blue-600', bg: 'bg-blue-50' },
+  purple: { color: 'text-purple-600', bg: 'bg-purple-50' },
+  emerald: { color: 'text-emerald-600', bg: 'bg-emerald-50' },
+  orange: { color: 'text-orange-600', bg: 'bg-orange-50' },
+  yellow: { color: 'text-yellow-600', bg: 'bg-yellow-50' },
+  indigo: { color: 'text-indigo-600', bg: 'bg-indigo-50' },
+  pink: { color: 'text-pink-600', bg: 'bg-pink-50' },
+  cyan: { color: 'text-cyan-600', bg: 'bg-cyan-50' },
+  teal: { color: 'text-teal-600', bg: 'bg-teal-50' },
+  slate: { color: 'text-slate-500', bg: 'bg-slate-50' },
+};
+
+export const isColorKey = (key: unknown): key is string => typeof key === 'string' && Object.hasOwn(COLOR_PALETTE, key);
+
+export const resolveColor = (colorKey: string) => (isColorKey(colorKey) ? COLOR_PALETTE[colorKey] : COLOR_PALETTE.slate);
+
+// 変換に失敗したカードの色
+export const ERROR_COLOR = { color: 'text-red-500', bg: 'bg-red-50' };
+
+// カードに保存されたクラス名がパレット（または失敗カードの色）の組み合わせかどうか
+export const isResultColor = (color: unknown, bg: unknown) =>
+  [...Object.values(COLOR_PALETTE), ERROR_COLOR].some(p => p.color === color && p.bg === bg);
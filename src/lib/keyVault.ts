@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react'
+import type { ProviderId } from './providers'
+import { PROVIDERS, apiKeyStorageKey } from './providers'
+import { toBase64, fromBase64, deriveKey, encryptBytes, decryptBytes } from './webCrypto'
+
+// --- APIキーの保管方法 ---
+// tab: タブを閉じると消える sessionStorage に平文で保存（共用PC向け、従来どおり）
+// vault: 合言葉から導いた鍵（PBKDF2）で暗号化（AES-GCM）して localStorage に保存
+export type KeyStorageMode = 'tab' | 'vault';
+
+const MODE_KEY = 'pm_key_storage';
+
+export const loadKeyStorageMode = (): KeyStorageMode => (localStorage.getItem(MODE_KEY) === 'vault' ? 'vault' : 'tab');
+
+export const saveKeyStorageMode = (mode: KeyStorageMode) => localStorage.setItem(MODE_KEY, mode);
+
+// 暗号化して保管する運用に切り替えたら、タブに平文で残っているキーは消す
+export const clearTabKeys = () => {
+  for (const id of Object.keys(PROVIDERS) as ProviderId[]) sessionStorage.removeItem(apiKeyStorageKey(id));
+};
+
+// --- 暗号化した保管庫 ---
+export type EncryptedValue = {
+  iv: string; // Base64
+  data: string; // Base64（認証タグを含む）
+};
+
+export type VaultKey = {
+  id: string;
+  provider: ProviderId;
+  name: string; // 「個人用」「検証環境」など
+  secret: EncryptedValue;
+  createdAt: number;
+};
+
+export type KeyVault = {
+  version: 1;
+  salt: string; // Base64
+  iterations: number;
+  verifier: EncryptedValue; // 合言葉が正しいかを確かめるための既知の値
+  keys: VaultKey[];
+  selected: Partial<Record<ProviderId, string>>; // プロバイダごとに使うキーの ID
+  autoLockMinutes: number;
+};
+
+const VAULT_KEY = 'pm_key_vault';
+const VAULT_VERSION = 1;
+const ITERATIONS = 600_000;
+const VERIFIER = 'gov-pm-translator';
+
+export const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+const DEFAULT_AUTO_LOCK = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await encryptBytes(key, iv, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> =>
+  new TextDecoder().decode(await decryptBytes(key, fromBase64(value.iv), fromBase64(value.data)));
+
+const isEncrypted = (value: unknown): value is EncryptedValue => {
+  const v = value as EncryptedValue;
+  return !!v && typeof v === 'object' && typeof v.iv === 'string' && typeof v.data === 'string';
+};
+
+export const loadVault = (): KeyVault | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VAULT_KEY) || 'null') as KeyVault | null;
+    if (!saved || saved.version !== VAULT_VERSION || !isEncrypted(saved.verifier) || !Array.isArray(saved.keys)) return null;
+    return { ...saved, keys: saved.keys.filter(k => k.provider in PROVIDERS && isEncrypted(k.secret)), selected: saved.selected ?? {} };
+  } catch {
+    return null;
+  }
+};
+
+export const saveVault = (vault: KeyVault) => localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+
+// 合言葉を忘れた場合は保管庫ごと削除するしかない
+export const deleteVault = () => localStorage.removeItem(VAULT_KEY);
+
+export const createVault = async (passphrase: string): Promise<{ vault: KeyVault; key: CryptoKey }> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`合言葉は ${MIN_PASSPHRASE_LENGTH} 文字以上にしてください`);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, ITERATIONS);
+  return {
+    vault: {
+      version: VAULT_VERSION,
+      salt: toBase64(salt),
+      iterations: ITERATIONS,
+      verifier: await encrypt(key, VERIFIER),
+      keys: [],
+      selected: {},
+      autoLockMinutes: DEFAULT_AUTO_LOCK,
+    },
+    key,
+  };
+};
+
+// 合言葉が違う場合は AES-GCM の認証に失敗する
+export const unlockVault = async (vault: KeyVault, passphrase: string): Promise<{ key: CryptoKey; secrets: Record<string, string> }> => {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    if ((await decrypt(key, vault.verifier)) !== VERIFIER) throw new Error();
+  } catch {
+    throw new Error('合言葉が正しくありません');
+  }
+  const secrets = Object.fromEntries(await Promise.all(vault.keys.map(async k => [k.id, await decrypt(key, k.secret)] as const)));
+  return { key, secrets };
+};
+
+export const addVaultKey = async (
+  vault: KeyVault,
+  key: CryptoKey,
+  provider: ProviderId,
+  name: string,
+  secret: string,
+  now = Date.now()
+): Promise<KeyVault> => {
+  const entry = { id: `key-${crypto.randomUUID()}`, provider, name, secret: await encrypt(key, secret), createdAt: now };
+  // そのプロバイダで最初のキーは自動的に使用中にする
+  const selected = vault.selected[provider] ? vault.selected : { ...vault.selected, [provider]: entry.id };
+  return { ...vault, keys: [...vault.keys, entry], selected };
+};
+
+export const removeVaultKey = (vault: KeyVault, id: string): KeyVault => {
+  const removed = vault.keys.find(k => k.id === id);
+  const keys = vault.keys.filter(k => k.id !== id);
+  if (!removed || vault.selected[removed.provider] !== id) return { ...vault, keys };
+  const next = keys.find(k => k.provider === removed.provider);
+  return { ...vault, keys, selected: { ...vault.selected, [removed.provider]: next?.id } };
+};
+
+// --- 画面から使うフック（解錠中の鍵と復号したキーはメモリにだけ持つ） ---
+type VaultSession = {
+  key: CryptoKey;
+  secrets: Record<string, string>; // キーの ID → 復号した APIキー
+};
+
+// 操作とみなすイベント（一定時間これらがなければ施錠する）
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+export const useKeyVault = () => {
+  const [vault, setVault] = useState<KeyVault | null>(loadVault);
+  const [session, setSession] = useState<VaultSession | null>(null);
+
+  const autoLockMinutes = vault?.autoLockMinutes ?? DEFAULT_AUTO_LOCK;
+  const unlocked = session !== null;
+
+  useEffect(() => {
+    if (!unlocked) return;
+    const lock = () => setSession(null);
+    let timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, reset));
+    };
+  }, [unlocked, autoLockMinutes]);
+
+  const update = (next: KeyVault) => {
+    setVault(next);
+    saveVault(next);
+  };
+
+  return {
+    vault,
+    unlocked,
+    autoLockMinutes,
+    create: async (passphrase: string) => {
+      const created = await createVault(passphrase);
+      update(created.vault);
+      setSession({ key: created.key, secrets: {} });
+    },
+    unlock: async (passphrase: string) => {
+      if (vault) setSession(await unlockVault(vault, passphrase));
+    },
+    lock: () => setSession(null),
+    reset: () => {
+      deleteVault();
+      setVault(null);
+      setSession(null);
+    },
+    addKey: async (provider: ProviderId, name: string, secret: string) => {
+      if (!vault || !session) return;
+      const next = await addVaultKey(vault, session.key, provider, name, secret);
+      const added = next.keys[next.keys.length - 1];
+      update(next);
+      setSession({ ...session, secrets: { ...session.secrets, [added.id]: secret } });
+    },
+    removeKey: (id: string) => vault && update(removeVaultKey(vault, id)),
+    select: (provider: ProviderId, id: string) => vault && update({ ...vault, selected: { ...vault.selected, [provider]: id } }),
+    setAutoLock: (minutes: number) => vault && update({ ...vault, autoLockMinutes: minutes }),
+    // 施錠中は空文字（APIキー未入力と同じ扱い）
+    secretFor: (provider: ProviderId) => {
+      const id = vault?.selected[provider];
+      return (id && session?.secrets[id]) || '';
+    },
+  };
+};
+
+export type KeyVaultState = ReturnType<typeof useKeyVault>;
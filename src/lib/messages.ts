@@ -0,0 +1,704 @@
+// --- 画面表示の文言（日本語を基準に、英語は同じキーをすべて持つ） ---
+// 「{name}」の部分は translate の params で置き換える
+export const ja = {
+  'common.back': '戻る',
+  'common.cancel': 'キャンセル',
+  'common.close': '閉じる',
+  'common.confirm': '確定',
+  'common.delete': '削除',
+  'common.duplicate': '複製',
+  'common.edit': '編集',
+  'common.save': '保存',
+
+  'app.tagline': '「ただの事務」を、\n「市場価値のあるスキル」へ。',
+  'app.introBefore': 'あなたが毎日当たり前にこなしている業務を、',
+  'app.introHighlight': '世界標準のプロジェクトマネジメント用語',
+  'app.introAfter': 'に置き換えて翻訳・言語化します。',
+  'app.outputLanguage': '経歴書の出力言語',
+  'app.taxonomy': '分類先の PM フレームワーク',
+  'app.principles': '第7版の 12 の原理・原則（参考）',
+  'app.editDictionary': '辞書を編集',
+  'app.aiTitle': 'AIがあなたの仕事を「解釈」します',
+  'app.aiDescription': '入力された業務内容（文脈）をAIが読み解き、選択したフレームワーク（PMBOK・PMP 試験内容の概要）の最も適切な用語へ高度に変換します。',
+  'app.securityTitle': '高セキュリティ',
+  'app.securityNote': '入力データとAPIキーは、あなたのブラウザから選択したプロバイダ（{provider}）の接続先へ直接送信されます。当アプリのサーバーは経由・保存しません。氏名・住所・電話番号などは送信前にブラウザ内で伏せ字に置き換えます。',
+  'app.modelTitle': '使用モデル',
+  'app.modelNote': 'を使用します。接続先とモデルはプロバイダごとに保存されます。',
+  'app.startAi': 'AIモードで開始',
+  'app.startStandard': 'スタンダードで開始',
+  'app.openHistory': '保存した経歴書を開く',
+  'app.openTeam': 'チーム・部署の集計',
+  'app.openEvaluation': '分類精度の評価（管理者向け）',
+  'app.inventoryTitle': '業務の棚卸し',
+  'app.inventoryAi': 'AIが文脈を読み取ります',
+  'app.inventoryStandard': 'キーワード辞書「{name}」で変換します',
+  'app.emptyTasks': '最近やった仕事を\n思いつくままに入力してください',
+  'app.taskPlaceholder': '例：クレーム電話対応、資料作成...',
+  'app.import': 'CSV・Excel から一括取り込み',
+  'app.analyzing': '解析中...',
+  'app.translate': 'PMスキルに変換',
+  'app.progress': '{done} / {total} 件完了',
+  'app.failed': '失敗 {count} 件',
+  'app.retryFailed': '失敗したタスクのみ再実行',
+  'app.restart': '最初に戻る',
+  'app.saveImage': '画像保存',
+  'app.debugTitle': 'AIの裏側を覗いてみる（学習用ログ・プロンプト実験）',
+
+  'ai.cancelled': 'キャンセルされました',
+  'ai.connectionFailed': '接続失敗: {message}',
+  'ai.timeout': '{seconds} 秒以内に応答がありませんでした',
+
+  'provider.gemini.name': 'Gemini',
+  'provider.gemini.description': 'Google AI Studio の Gemini API',
+  'provider.openai.name': 'OpenAI互換',
+  'provider.openai.description': 'OpenAI・Azure OpenAI・llama.cpp など Chat Completions 互換のエンドポイント',
+  'provider.ollama.name': 'Ollama',
+  'provider.ollama.description': '庁内サーバー等で動作する Ollama（APIキー不要）',
+  'provider.mock.name': 'デモ（オフライン）',
+  'provider.mock.description': 'ネットワークを使わない模擬AI。研修のデモや動作確認用',
+  'provider.endpoint': '接続先とモデル',
+  'provider.apiKeyLabel': '{name} API Keyを設定してください',
+  'provider.apiKeyLabelOptional': '{name} API Keyを設定してください（任意）',
+  'provider.apiKeyPlaceholder': 'API Keyを入力...',
+  'provider.apiKeyClear': 'キー情報を削除',
+  'provider.sharedPcWarning': '共用PCの方は、使用後に必ず削除ボタンでキーを消去してください。',
+  'provider.keyStorage.tab': 'このタブだけ記憶',
+  'provider.keyStorage.vault': '暗号化して保存',
+  'provider.runnerSettings': '実行設定',
+  'provider.concurrency': '同時実行数',
+  'provider.maxRetries': 'リトライ回数',
+  'provider.timeoutSec': 'タイムアウト(秒)',
+
+  'tasks.drag': 'ドラッグして並べ替え',
+
+  'import.title': '一括取り込み',
+  'import.placeholder': 'Excel の表や業務分掌をそのまま貼り付けてください\n（1行に1業務、またはタブ・カンマ区切り）',
+  'import.chooseFile': 'CSV / TSV ファイルを選択',
+  'import.readFailed': 'ファイルを読み込めませんでした: {message}',
+  'import.delimiter': '区切り',
+  'import.delimiter.tab': 'タブ',
+  'import.delimiter.comma': 'カンマ',
+  'import.delimiter.line': '1 行 1 業務',
+  'import.hasHeader': '1行目は見出し',
+  'import.taskColumn': '業務内容',
+  'import.hoursColumn': '時間（任意）',
+  'import.dateColumn': '日付（任意）',
+  'import.none': 'なし',
+  'import.column': '列{n}',
+  'import.moreRows': 'ほか {count} 行',
+  'import.summary': '{count} 件を追加（重複 {duplicates} 件・空行 {blanks} 件を除外）',
+  'import.submit': '取り込む',
+
+  'redaction.summary': '個人情報の伏せ字: {count} 箇所を置き換えて送信',
+  'redaction.off': '個人情報の伏せ字: オフ',
+  'redaction.enable': 'AIへ送信する前に個人情報を伏せ字にする',
+  'redaction.rule.name': '敬称付きの氏名（様・さん・氏など）',
+  'redaction.rule.address': '住所・郵便番号',
+  'redaction.rule.phone': '電話番号',
+  'redaction.rule.myNumber': 'マイナンバー（12桁の番号）',
+  'redaction.rule.email': 'メールアドレス',
+  'redaction.rule.caseNumber': '案件番号・受付番号',
+  'redaction.rule.blocklist': '伏せ字リストの語',
+  'redaction.blocklist': '伏せ字リスト（事業者名・施設名など。1行に1語）',
+  'redaction.preview': '送信内容のプレビュー',
+
+  'result.label': 'ラベル',
+  'result.text': '説明文',
+  'result.source.ai': 'AI',
+  'result.source.repaired': 'AI（自動修復）',
+  'result.source.fallback': '辞書フォールバック',
+  'result.source.manual': '手動修正',
+  'result.secondary': 'サブスキル',
+  'result.changeArea': 'エリアを変更…',
+  'result.edit': 'ラベル・説明を編集',
+  'result.rerun': 'このタスクだけ再変換',
+
+  'star.open': '経歴書の箇条書き（STAR 形式）を作成',
+  'star.title': '実績の箇条書き（STAR 形式）',
+  'star.intro': '分かる範囲で答えてください。状況・課題・行動・成果の流れで、経歴書に書ける箇条書きにします',
+  'star.field.scale': '規模',
+  'star.field.stakeholders': '関係者',
+  'star.field.outcome': '成果',
+  'star.field.numbers': '数値',
+  'star.hint.scale': '例：全庁 40 課、対象者 1,200 人、予算 3,000 万円',
+  'star.hint.stakeholders': '例：関係課、委託事業者、住民団体',
+  'star.hint.outcome': '例：期限内の稼働、苦情の再発防止',
+  'star.hint.numbers': '例：処理時間を 30% 短縮、問い合わせを月 50 件削減',
+  'star.generate': '箇条書きを作成',
+  'star.generating': '作成中...',
+  'star.failed': '作成できませんでした: {message}',
+  'star.bullets': '箇条書き（1 行に 1 項目。手直しして保存できます）',
+
+  'job.pending': '待機中',
+  'job.running': '解析中',
+  'job.retrying': '再試行中',
+  'job.done': '完了',
+  'job.failed': '失敗',
+  'job.cancelled': 'キャンセル',
+
+  'export.title': 'テキストで書き出す（経歴書・人事評価シートへの貼り付け用）',
+  'export.pdf': '印刷 / PDF 保存',
+  'export.markdown': 'Markdown',
+  'export.word': 'Word',
+  'export.json': 'JSON',
+
+  // 経歴書本体（出力言語で表示する）
+  'portfolio.title': '自治体PM 経歴書',
+  'portfolio.exportedAt': '出力日',
+  'portfolio.method': '変換方法',
+  'portfolio.framework': 'フレームワーク',
+  'portfolio.sourceAi': 'AIモード（{provider} / {model}）',
+  'portfolio.sourceStandard': 'スタンダードモード（辞書: {dictionary}）',
+  'portfolio.task': '元の業務',
+  'portfolio.related': '関連スキル',
+
+  'dashboard.title': 'スキルプロフィール（{taxonomy}）',
+  'dashboard.radar': 'レーダーチャート',
+  'dashboard.bar': '棒グラフ',
+  'dashboard.weight.count': '件数',
+  'dashboard.weight.hours': '工数（時間）',
+  'dashboard.weight.frequency': '頻度（回/月）',
+  'dashboard.empty': '集計できるデータがありません。下の一覧で工数・頻度を入力してください',
+  'dashboard.missing': '{weight}が未入力の {count} 件は集計から除いています',
+  'dashboard.unmapped': 'フレームワークに対応しないカテゴリの {count} 件は「その他」として割合にのみ含めています',
+  'dashboard.suggestions': 'これから経験を広げたいエリア',
+  'dashboard.enterWeights': '工数・頻度を入力',
+  'dashboard.task': '業務',
+  'dashboard.area': 'エリア',
+  'dashboard.hours': '時間',
+  'dashboard.frequency': '回/月',
+  'dashboard.other': 'その他',
+
+  'history.title': '経歴書の履歴',
+  'history.subtitle': '変換した経歴書はこのブラウザに自動保存されます',
+  'history.loadFailed': '履歴を読み込めませんでした: {message}',
+  'history.updateFailed': '履歴を更新できませんでした: {message}',
+  'history.saveFailed': '経歴書を履歴に保存できませんでした: {message}',
+  'history.copySuffix': '（コピー）',
+  'history.confirmDelete': '「{title}」を削除しますか？',
+  'history.empty': '保存された経歴書はまだありません',
+  'history.selectCompare': '比較対象に選択',
+  'history.dictionary': '辞書: {name}',
+  'history.count': '{count} 件',
+  'history.open': '開く',
+  'history.compare': '比較',
+  'history.skill': 'スキル',
+
+  'eval.title': '分類精度の評価',
+  'eval.subtitle': '自治体の典型的な業務 {count} 件のラベル付きコーパスで、辞書やプロンプトの変更前後の精度を比べます',
+  'eval.runner.standard': 'スタンダード',
+  'eval.runner.ai': 'AI（録画）',
+  'eval.runner.replay': '録画を再生',
+  'eval.runnerNote.standard': '使用中の辞書でコーパスを分類します。',
+  'eval.runnerNote.ai': '使用中のプロバイダに送信し、応答を録画します。録画をダウンロードしておくと、オフラインで同じ評価を再現できます。',
+  'eval.runnerNote.replay': '録画した応答を再生して評価します。ネットワークは使いません。',
+  'eval.loadRecording': '録画ファイルを選択',
+  'eval.recordingInfo': '{provider} / {model}（{date} 録画）',
+  'eval.recordingFailed': '録画ファイルを読み込めませんでした: {message}',
+  'eval.stale': '録画時からシステムプロンプトが変わっています。プロンプト変更の効果を測るには AI で評価し直してください',
+  'eval.noRecording': '録画ファイルを選択してください',
+  'eval.noApiKey': 'API キーを入力してから評価してください',
+  'eval.run': '評価を実行',
+  'eval.running': '評価中… {done}/{total}',
+  'eval.accuracy': '正解率 {correct}/{total}',
+  'eval.downloadReport': 'レポート',
+  'eval.downloadRecording': '録画',
+  'eval.class': '分類先',
+  'eval.support': '正解数',
+  'eval.precision': '適合率',
+  'eval.recall': '再現率',
+  'eval.confusion': '混同行列（行: 正解、列: 予測）',
+  'eval.misses': '誤分類 {count} 件',
+  'eval.unmapped': '対応なし',
+
+  'playground.title': 'プロンプト実験',
+  'playground.intro': 'システムプロンプト・例示・温度・モデルを変えて 1 件の業務を再実行し、結果を横に並べて比べます',
+  'playground.task': '業務',
+  'playground.name': 'バージョン名',
+  'playground.loadPreset': 'プリセットを読み込む',
+  'playground.savePreset': 'プリセットとして保存',
+  'playground.deletePreset': 'プリセットを削除',
+  'playground.exportPresets': 'プリセットを JSON で書き出す',
+  'playground.importPresets': 'プリセットを JSON から読み込む',
+  'playground.importFailed': 'プリセットを読み込めませんでした: {message}',
+  'playground.invalidPresets': 'プリセットの形式が正しくありません',
+  'playground.resetPrompt': '既定に戻す',
+  'playground.examples': '例示（few-shot）',
+  'playground.temperature': '温度を指定',
+  'playground.providerDefault': 'プロバイダの既定値',
+  'playground.model': 'モデル',
+  'playground.run': 'この設定で実行',
+  'playground.noApiKey': 'API キーを入力してください',
+  'playground.runs': '実行結果',
+  'playground.clearRuns': 'すべて消去',
+  'playground.exampleCount': '例示 {count} 件',
+  'playground.tokens': 'トークン 入力 {input} / 出力 {output}',
+  'playground.rawRequest': 'リクエスト本文',
+  'playground.rawResponse': 'レスポンス本文',
+
+  'team.title': 'チーム・部署の集計',
+  'team.subtitle': '職員の経歴書をまとめて、課・部の PM スキル分布を確認します',
+  'team.importFiles': '経歴書（JSON）を読み込む（複数選択可）',
+  'team.importNote': '各職員が「経歴書を書き出す」の JSON 形式で保存したファイルを選んでください。名簿はこの端末に保存されます。',
+  'team.importFailed': '{file} を読み込めませんでした: {message}',
+  'team.fromHistory': 'この端末に保存した経歴書から追加',
+  'team.selectSession': '経歴書を選択',
+  'team.namePlaceholder': '職員の氏名',
+  'team.add': '名簿に追加',
+  'team.roster': '名簿（{count} 名）',
+  'team.empty': 'まだ職員が登録されていません',
+  'team.clear': '名簿を空にする',
+  'team.confirmClear': '名簿からすべての職員を削除しますか？',
+  'team.confirmDelete': '「{name}」を名簿から削除しますか？',
+  'team.unitPlaceholder': '所属（係・課）',
+  'team.entryCount': '{count} 件',
+  'team.framework': '集計に使う分類体系',
+  'team.anonymize': '氏名を伏せる',
+  'team.downloadCsv': 'CSV で書き出す',
+  'team.otherTaxonomy': '{count} 名分の経歴書は別の分類体系で作られているため、一部が「対応なし」に数えられています',
+  'team.name': '氏名',
+  'team.unit': '所属',
+  'team.unmapped': '対応なし',
+  'team.entries': '件数',
+  'team.experienced': '経験者数',
+  'team.total': '合計',
+  'team.noUnit': '所属未設定',
+  'team.memberCount': '{count} 名',
+  'team.anonymousName': '職員 {number}',
+
+  'vault.createNote': 'キーは合言葉で暗号化してこのブラウザに保存します。合言葉はどこにも保存されず、忘れるとキーを取り出せません。',
+  'vault.passphrase': '合言葉',
+  'vault.confirmPassphrase': '合言葉（確認）',
+  'vault.create': '保管庫を作成',
+  'vault.tooShort': '合言葉は {min} 文字以上にしてください',
+  'vault.mismatch': '確認用の合言葉が一致しません',
+  'vault.unlock': '解錠',
+  'vault.wrongPassphrase': '合言葉が正しくありません',
+  'vault.forgot': '合言葉を忘れた場合は保管庫を削除',
+  'vault.confirmReset': '保管庫と保存したすべてのキーを削除しますか？',
+  'vault.noKeys': 'このプロバイダのキーはまだありません',
+  'vault.keyName': 'キーの名前',
+  'vault.addKey': 'キーを追加',
+  'vault.confirmDelete': 'キー「{name}」を削除しますか？',
+  'vault.autoLock': '操作がなければ自動で施錠:',
+  'vault.minutes': '{count} 分',
+  'vault.lock': '今すぐ施錠',
+
+  'offline.indicator': 'オフライン',
+  'offline.aiNote': 'オフラインのため AI モードでは変換できません。入力した業務は保留しておき、接続が戻ったら変換できます。スタンダードモードはそのまま使えます。',
+  'offline.queue': '保留して接続が戻ったら変換',
+  'offline.queueTitle': '保留中の業務リスト（{count} 件）',
+  'offline.queueReady': '接続が戻りました。AI モードで変換できます。',
+  'offline.queueWaiting': '接続が戻り、AI モードの API キーを設定すると変換できます。',
+  'offline.translate': 'AI で変換',
+  'offline.confirmDelete': '保留中の業務リストを削除しますか？',
+
+  'share.button': '共有リンク',
+  'share.title': '共有リンク',
+  'share.note': '経歴書の内容を URL に埋め込みます。サーバーには保存されず、リンクを知っている人だけが閲覧できます。合言葉を指定すると暗号化し、開くときに合言葉が必要になります。',
+  'share.passphraseOptional': '合言葉（任意）',
+  'share.generate': 'リンクを作成',
+  'share.copy': 'コピー',
+  'share.copied': 'コピーしました',
+  'share.length': '{count} 文字',
+  'share.tooLong': '{count} 文字あります。メールやチャットによっては途中で切れることがあります。',
+  'share.openTitle': '共有された経歴書',
+  'share.loading': '共有リンクを読み込んでいます…',
+  'share.encryptedNote': 'この経歴書は暗号化されています。共有した人から聞いた合言葉を入力してください。',
+  'share.passphrase': '合言葉',
+  'share.unlock': '開く',
+  'share.error.unsupportedVersion': 'このリンクの形式には対応していません。アプリを最新の状態にしてから開き直してください。',
+  'share.error.wrongPassphrase': '合言葉が正しくありません',
+  'share.error.corrupted': 'リンクが壊れています。途中で切れていないか確認してください。',
+  'share.readOnly': '共有された経歴書を閲覧しています（読み取り専用）',
+  'share.clone': '複製して編集',
+
+  'dictionary.title': '辞書エディタ',
+  'dictionary.subtitle': '部署ごとの用語を登録してスタンダードモードの変換を調整します',
+  'dictionary.newCategory': '新しいカテゴリ',
+  'dictionary.copyName': '{name}のコピー',
+  'dictionary.confirmDelete': '辞書「{name}」を削除しますか？',
+  'dictionary.confirmReset': '標準辞書を初期状態に戻しますか？',
+  'dictionary.delete': '辞書を削除',
+  'dictionary.name': '辞書名',
+  'dictionary.import': '読み込み',
+  'dictionary.reset': '初期状態に戻す',
+  'dictionary.importFailed': '読み込めませんでした',
+  'dictionary.error.rootNotObject': 'JSON のルートがオブジェクトではありません',
+  'dictionary.error.unsupportedVersion': '未対応のスキーマバージョンです: {value}',
+  'dictionary.error.nameRequired': 'name（辞書名）が必要です',
+  'dictionary.error.categoriesRequired': 'categories は 1 件以上の配列である必要があります',
+  'dictionary.error.notObject': '{at} はオブジェクトである必要があります',
+  'dictionary.error.required': '{at} が必要です',
+  'dictionary.error.duplicateId': '{at} が重複しています: {value}',
+  'dictionary.error.notString': '{at} は文字列である必要があります',
+  'dictionary.error.invalidValue': '{at} が不正です: {value}',
+  'dictionary.error.invalidTerms': '{at} は term と weight を持つオブジェクトの配列である必要があります',
+  'dictionary.error.unknownTaxonomy': '{at} に未対応の分類体系があります: {value}',
+  'dictionary.error.syntax': 'JSON の構文エラー: {value}',
+  'dictionary.error.csvRowsRequired': 'ヘッダー行とデータ行が必要です',
+  'dictionary.error.csvMissingColumns': '必須列がありません: {value}',
+  'dictionary.label': 'ラベル（PM用語）',
+  'dictionary.text': '説明文',
+  'dictionary.labelEn': '英語のラベル（出力言語が English のとき）',
+  'dictionary.textEn': '英語の説明文（出力言語が English のとき）',
+  'dictionary.areas': 'フレームワークでの分類先',
+  'dictionary.areaDefault': '既定の対応',
+  'dictionary.deleteCategory': 'カテゴリを削除',
+  'dictionary.keywords': 'キーワード（カンマ区切り・「語:重み」で重み指定）',
+  'dictionary.phrases': 'フレーズ（複合語・言い回し）',
+  'dictionary.addCategory': 'カテゴリを追加',
+};
+
+export type MessageKey = keyof typeof ja;
+
+export const en: Record<MessageKey, string> = {
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.confirm': 'Apply',
+  'common.delete': 'Delete',
+  'common.duplicate': 'Duplicate',
+  'common.edit': 'Edit',
+  'common.save': 'Save',
+
+  'app.tagline': 'Turn "just paperwork"\ninto marketable skills.',
+  'app.introBefore': 'The work you do every day,',
+  'app.introHighlight': 'translated into standard project management terms',
+  'app.introAfter': 'so you can put it into words.',
+  'app.outputLanguage': 'Portfolio output language',
+  'app.taxonomy': 'PM framework to classify into',
+  'app.principles': 'The 12 principles of the 7th Edition (for reference)',
+  'app.editDictionary': 'Edit dictionary',
+  'app.aiTitle': 'AI interprets your work',
+  'app.aiDescription': 'The AI reads the context of each task and maps it to the most fitting term of the selected framework (PMBOK or the PMP Examination Content Outline).',
+  'app.securityTitle': 'Security',
+  'app.securityNote': 'Your input and API key are sent directly from your browser to the selected provider ({provider}). This app has no server that relays or stores them. Names, addresses, phone numbers and similar data are masked in the browser before sending.',
+  'app.modelTitle': 'Model',
+  'app.modelNote': 'will be used. Endpoint and model are saved per provider.',
+  'app.startAi': 'Start in AI Mode',
+  'app.startStandard': 'Start in Standard Mode',
+  'app.openHistory': 'Open a saved portfolio',
+  'app.openTeam': 'Team & department overview',
+  'app.openEvaluation': 'Classification accuracy (admin)',
+  'app.inventoryTitle': 'Task inventory',
+  'app.inventoryAi': 'The AI reads the context of each task',
+  'app.inventoryStandard': 'Translating with the keyword dictionary "{name}"',
+  'app.emptyTasks': 'Enter the work you have done recently,\nas it comes to mind',
+  'app.taskPlaceholder': 'e.g. Handling complaint calls, preparing documents...',
+  'app.import': 'Bulk import from CSV / Excel',
+  'app.analyzing': 'Analyzing...',
+  'app.translate': 'Translate into PM skills',
+  'app.progress': '{done} / {total} done',
+  'app.failed': '{count} failed',
+  'app.retryFailed': 'Retry failed tasks only',
+  'app.restart': 'Start over',
+  'app.saveImage': 'Save image',
+  'app.debugTitle': 'Look behind the AI (learning log & prompt playground)',
+
+  'ai.cancelled': 'Cancelled',
+  'ai.connectionFailed': 'Connection failed: {message}',
+  'ai.timeout': 'No response within {seconds} seconds',
+
+  'provider.gemini.name': 'Gemini',
+  'provider.gemini.description': 'Gemini API from Google AI Studio',
+  'provider.openai.name': 'OpenAI compatible',
+  'provider.openai.description': 'OpenAI, Azure OpenAI, llama.cpp and other Chat Completions compatible endpoints',
+  'provider.ollama.name': 'Ollama',
+  'provider.ollama.description': 'Ollama running on an internal server (no API key needed)',
+  'provider.mock.name': 'Demo (offline)',
+  'provider.mock.description': 'Simulated AI that uses no network. For training demos and testing',
+  'provider.endpoint': 'Endpoint and model',
+  'provider.apiKeyLabel': 'Set your {name} API key',
+  'provider.apiKeyLabelOptional': 'Set your {name} API key (optional)',
+  'provider.apiKeyPlaceholder': 'Enter API key...',
+  'provider.apiKeyClear': 'Remove the key',
+  'provider.sharedPcWarning': 'On a shared PC, always remove your key with the delete button after use.',
+  'provider.keyStorage.tab': 'Remember for this tab only',
+  'provider.keyStorage.vault': 'Save encrypted',
+  'provider.runnerSettings': 'Run settings',
+  'provider.concurrency': 'Concurrency',
+  'provider.maxRetries': 'Retries',
+  'provider.timeoutSec': 'Timeout (sec)',
+
+  'tasks.drag': 'Drag to reorder',
+
+  'import.title': 'Bulk import',
+  'import.placeholder': 'Paste an Excel table or a duty list as is\n(one task per line, or tab / comma separated)',
+  'import.chooseFile': 'Choose a CSV / TSV file',
+  'import.readFailed': 'Could not read the file: {message}',
+  'import.delimiter': 'Separator',
+  'import.delimiter.tab': 'Tab',
+  'import.delimiter.comma': 'Comma',
+  'import.delimiter.line': 'One task per line',
+  'import.hasHeader': 'First row is a header',
+  'import.taskColumn': 'Task',
+  'import.hoursColumn': 'Hours (optional)',
+  'import.dateColumn': 'Date (optional)',
+  'import.none': 'None',
+  'import.column': 'Column {n}',
+  'import.moreRows': '{count} more rows',
+  'import.summary': 'Add {count} tasks ({duplicates} duplicates and {blanks} blank rows skipped)',
+  'import.submit': 'Import',
+
+  'redaction.summary': 'Masking personal data: {count} replacements before sending',
+  'redaction.off': 'Masking personal data: off',
+  'redaction.enable': 'Mask personal data before sending to the AI',
+  'redaction.rule.name': 'Names with honorifics (様, さん, 氏 etc.)',
+  'redaction.rule.address': 'Addresses and postal codes',
+  'redaction.rule.phone': 'Phone numbers',
+  'redaction.rule.myNumber': 'My Number (12-digit number)',
+  'redaction.rule.email': 'Email addresses',
+  'redaction.rule.caseNumber': 'Case and reception numbers',
+  'redaction.rule.blocklist': 'Terms in the mask list',
+  'redaction.blocklist': 'Mask list (business or facility names, one per line)',
+  'redaction.preview': 'Preview of what will be sent',
+
+  'result.label': 'Label',
+  'result.text': 'Description',
+  'result.source.ai': 'AI',
+  'result.source.repaired': 'AI (auto-repaired)',
+  'result.source.fallback': 'Dictionary fallback',
+  'result.source.manual': 'Edited',
+  'result.secondary': 'Sub-skill',
+  'result.changeArea': 'Change area…',
+  'result.edit': 'Edit label and description',
+  'result.rerun': 'Translate this task again',
+
+  'star.open': 'Write résumé bullets (STAR format)',
+  'star.title': 'Achievement bullets (STAR format)',
+  'star.intro': 'Answer what you can. The answers are turned into résumé bullets following Situation, Task, Action and Result',
+  'star.field.scale': 'Scale',
+  'star.field.stakeholders': 'Stakeholders',
+  'star.field.outcome': 'Outcome',
+  'star.field.numbers': 'Numbers',
+  'star.hint.scale': 'e.g. 40 divisions, 1,200 residents, a 30M yen budget',
+  'star.hint.stakeholders': 'e.g. other divisions, contractors, community groups',
+  'star.hint.outcome': 'e.g. launched on schedule, no repeat complaints',
+  'star.hint.numbers': 'e.g. cut processing time by 30%, 50 fewer inquiries a month',
+  'star.generate': 'Write bullets',
+  'star.generating': 'Writing...',
+  'star.failed': 'Could not write bullets: {message}',
+  'star.bullets': 'Bullets (one per line; edit and save)',
+
+  'job.pending': 'Waiting',
+  'job.running': 'Analyzing',
+  'job.retrying': 'Retrying',
+  'job.done': 'Done',
+  'job.failed': 'Failed',
+  'job.cancelled': 'Cancelled',
+
+  'export.title': 'Export as text (for résumés and evaluation sheets)',
+  'export.pdf': 'Print / Save as PDF',
+  'export.markdown': 'Markdown',
+  'export.word': 'Word',
+  'export.json': 'JSON',
+
+  'portfolio.title': 'Public Sector PM Portfolio',
+  'portfolio.exportedAt': 'Exported',
+  'portfolio.method': 'Method',
+  'portfolio.framework': 'Framework',
+  'portfolio.sourceAi': 'AI Mode ({provider} / {model})',
+  'portfolio.sourceStandard': 'Standard Mode (dictionary: {dictionary})',
+  'portfolio.task': 'Original task',
+  'portfolio.related': 'Related skill',
+
+  'dashboard.title': 'Skill profile ({taxonomy})',
+  'dashboard.radar': 'Radar chart',
+  'dashboard.bar': 'Bar chart',
+  'dashboard.weight.count': 'Count',
+  'dashboard.weight.hours': 'Hours',
+  'dashboard.weight.frequency': 'Frequency (per month)',
+  'dashboard.empty': 'Nothing to aggregate yet. Enter hours or frequency in the list below',
+  'dashboard.missing': '{count} tasks without {weight} are excluded',
+  'dashboard.unmapped': '{count} tasks in categories not mapped to the framework are counted as "Other" in the shares only',
+  'dashboard.suggestions': 'Areas to grow your experience in',
+  'dashboard.enterWeights': 'Enter hours and frequency',
+  'dashboard.task': 'Task',
+  'dashboard.area': 'Area',
+  'dashboard.hours': 'Hours',
+  'dashboard.frequency': '/month',
+  'dashboard.other': 'Other',
+
+  'history.title': 'Portfolio history',
+  'history.subtitle': 'Translated portfolios are saved automatically in this browser',
+  'history.loadFailed': 'Could not load history: {message}',
+  'history.updateFailed': 'Could not update history: {message}',
+  'history.saveFailed': 'Could not save this portfolio to history: {message}',
+  'history.copySuffix': ' (copy)',
+  'history.confirmDelete': 'Delete "{title}"?',
+  'history.empty': 'No saved portfolios yet',
+  'history.selectCompare': 'Select for comparison',
+  'history.dictionary': 'Dictionary: {name}',
+  'history.count': '{count} tasks',
+  'history.open': 'Open',
+  'history.compare': 'Compare',
+  'history.skill': 'Skill',
+
+  'eval.title': 'Classification accuracy',
+  'eval.subtitle': 'Compare accuracy before and after dictionary or prompt changes on a labeled corpus of {count} typical municipal tasks',
+  'eval.runner.standard': 'Standard',
+  'eval.runner.ai': 'AI (record)',
+  'eval.runner.replay': 'Replay',
+  'eval.runnerNote.standard': 'Classifies the corpus with the active dictionary.',
+  'eval.runnerNote.ai': 'Sends the corpus to the active provider and records the replies. Download the recording to reproduce the same evaluation offline.',
+  'eval.runnerNote.replay': 'Replays recorded replies without using the network.',
+  'eval.loadRecording': 'Choose a recording',
+  'eval.recordingInfo': '{provider} / {model} (recorded {date})',
+  'eval.recordingFailed': 'Could not load the recording: {message}',
+  'eval.stale': 'The system prompt has changed since this was recorded. Evaluate with AI again to measure the effect of a prompt change',
+  'eval.noRecording': 'Choose a recording first',
+  'eval.noApiKey': 'Enter an API key before evaluating',
+  'eval.run': 'Run evaluation',
+  'eval.running': 'Evaluating… {done}/{total}',
+  'eval.accuracy': 'Accuracy {correct}/{total}',
+  'eval.downloadReport': 'Report',
+  'eval.downloadRecording': 'Recording',
+  'eval.class': 'Class',
+  'eval.support': 'Expected',
+  'eval.precision': 'Precision',
+  'eval.recall': 'Recall',
+  'eval.confusion': 'Confusion matrix (rows: expected, columns: predicted)',
+  'eval.misses': '{count} misclassified',
+  'eval.unmapped': 'Not mapped',
+
+  'playground.title': 'Prompt playground',
+  'playground.intro': 'Re-run a single task with a different system prompt, examples, temperature or model and compare the results side by side',
+  'playground.task': 'Task',
+  'playground.name': 'Version name',
+  'playground.loadPreset': 'Load preset',
+  'playground.savePreset': 'Save as preset',
+  'playground.deletePreset': 'Delete preset',
+  'playground.exportPresets': 'Export presets as JSON',
+  'playground.importPresets': 'Import presets from JSON',
+  'playground.importFailed': 'Could not import presets: {message}',
+  'playground.invalidPresets': 'The preset file format is invalid',
+  'playground.resetPrompt': 'Reset to default',
+  'playground.examples': 'Few-shot examples',
+  'playground.temperature': 'Set temperature',
+  'playground.providerDefault': 'Provider default',
+  'playground.model': 'Model',
+  'playground.run': 'Run with these settings',
+  'playground.noApiKey': 'Please enter an API key',
+  'playground.runs': 'Runs',
+  'playground.clearRuns': 'Clear all',
+  'playground.exampleCount': '{count} examples',
+  'playground.tokens': 'Tokens in {input} / out {output}',
+  'playground.rawRequest': 'Request body',
+  'playground.rawResponse': 'Response body',
+
+  'team.title': 'Team & department overview',
+  'team.subtitle': 'Combine staff portfolios to see the PM skill distribution of a section or department',
+  'team.importFiles': 'Import portfolios (JSON, multiple files allowed)',
+  'team.importNote': 'Choose files each staff member saved with the JSON portfolio export. The roster is stored on this device.',
+  'team.importFailed': 'Could not import {file}: {message}',
+  'team.fromHistory': 'Add from portfolios saved on this device',
+  'team.selectSession': 'Select a portfolio',
+  'team.namePlaceholder': 'Staff name',
+  'team.add': 'Add to roster',
+  'team.roster': 'Roster ({count})',
+  'team.empty': 'No staff added yet',
+  'team.clear': 'Clear roster',
+  'team.confirmClear': 'Remove everyone from the roster?',
+  'team.confirmDelete': 'Remove "{name}" from the roster?',
+  'team.unitPlaceholder': 'Section',
+  'team.entryCount': '{count} tasks',
+  'team.framework': 'Framework for the overview',
+  'team.anonymize': 'Hide names',
+  'team.downloadCsv': 'Export CSV',
+  'team.otherTaxonomy': 'Portfolios of {count} staff were created with a different framework, so some of their tasks count as not mapped',
+  'team.name': 'Name',
+  'team.unit': 'Section',
+  'team.unmapped': 'Not mapped',
+  'team.entries': 'Tasks',
+  'team.experienced': 'Staff with experience',
+  'team.total': 'Total',
+  'team.noUnit': 'No section',
+  'team.memberCount': '{count} staff',
+  'team.anonymousName': 'Staff {number}',
+
+  'vault.createNote': 'Keys are encrypted with your passphrase and saved in this browser. The passphrase is never stored, and keys cannot be recovered without it.',
+  'vault.passphrase': 'Passphrase',
+  'vault.confirmPassphrase': 'Confirm passphrase',
+  'vault.create': 'Create vault',
+  'vault.tooShort': 'Use a passphrase of at least {min} characters',
+  'vault.mismatch': 'The passphrases do not match',
+  'vault.unlock': 'Unlock',
+  'vault.wrongPassphrase': 'Incorrect passphrase',
+  'vault.forgot': 'Forgot the passphrase? Delete the vault',
+  'vault.confirmReset': 'Delete the vault and all saved keys?',
+  'vault.noKeys': 'No keys saved for this provider yet',
+  'vault.keyName': 'Key name',
+  'vault.addKey': 'Add key',
+  'vault.confirmDelete': 'Delete the key "{name}"?',
+  'vault.autoLock': 'Auto-lock after inactivity:',
+  'vault.minutes': '{count} min',
+  'vault.lock': 'Lock now',
+
+  'offline.indicator': 'Offline',
+  'offline.aiNote': 'AI Mode cannot translate while offline. Tasks you enter are queued and can be translated once you are back online. Standard Mode keeps working.',
+  'offline.queue': 'Queue until back online',
+  'offline.queueTitle': 'Queued task lists ({count})',
+  'offline.queueReady': 'You are back online. Translate them in AI Mode.',
+  'offline.queueWaiting': 'They can be translated once you are online and an AI Mode API key is set.',
+  'offline.translate': 'Translate with AI',
+  'offline.confirmDelete': 'Delete this queued task list?',
+
+  'share.button': 'Share link',
+  'share.title': 'Share link',
+  'share.note': 'Embeds the portfolio in the URL. Nothing is stored on a server; only people with the link can view it. Set a passphrase to encrypt it so the passphrase is required to open it.',
+  'share.passphraseOptional': 'Passphrase (optional)',
+  'share.generate': 'Create link',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied',
+  'share.length': '{count} characters',
+  'share.tooLong': '{count} characters. Some email or chat tools may cut off links this long.',
+  'share.openTitle': 'Shared portfolio',
+  'share.loading': 'Loading the shared link…',
+  'share.encryptedNote': 'This portfolio is encrypted. Enter the passphrase you received from the person who shared it.',
+  'share.passphrase': 'Passphrase',
+  'share.unlock': 'Open',
+  'share.error.unsupportedVersion': 'This link format is not supported. Update the app and open the link again.',
+  'share.error.wrongPassphrase': 'Incorrect passphrase',
+  'share.error.corrupted': 'The link is broken. Check that it was not cut off.',
+  'share.readOnly': 'Viewing a shared portfolio (read-only)',
+  'share.clone': 'Duplicate to edit',
+
+  'dictionary.title': 'Dictionary editor',
+  'dictionary.subtitle': 'Register your department\'s terms to tune Standard Mode translation',
+  'dictionary.newCategory': 'New category',
+  'dictionary.copyName': 'Copy of {name}',
+  'dictionary.confirmDelete': 'Delete the dictionary "{name}"?',
+  'dictionary.confirmReset': 'Reset the standard dictionary to its defaults?',
+  'dictionary.delete': 'Delete dictionary',
+  'dictionary.name': 'Dictionary name',
+  'dictionary.import': 'Import',
+  'dictionary.reset': 'Reset to defaults',
+  'dictionary.importFailed': 'Could not import',
+  'dictionary.error.rootNotObject': 'The JSON root must be an object',
+  'dictionary.error.unsupportedVersion': 'Unsupported schema version: {value}',
+  'dictionary.error.nameRequired': 'name (dictionary name) is required',
+  'dictionary.error.categoriesRequired': 'categories must be an array with at least one entry',
+  'dictionary.error.notObject': '{at} must be an object',
+  'dictionary.error.required': '{at} is required',
+  'dictionary.error.duplicateId': '{at} is a duplicate: {value}',
+  'dictionary.error.notString': '{at} must be a string',
+  'dictionary.error.invalidValue': '{at} is invalid: {value}',
+  'dictionary.error.invalidTerms': '{at} must be an array of objects with term and weight',
+  'dictionary.error.unknownTaxonomy': '{at} contains an unsupported framework: {value}',
+  'dictionary.error.syntax': 'JSON syntax error: {value}',
+  'dictionary.error.csvRowsRequired': 'A header row and at least one data row are required',
+  'dictionary.error.csvMissingColumns': 'Missing required columns: {value}',
+  'dictionary.label': 'Label (PM term)',
+  'dictionary.text': 'Description',
+  'dictionary.labelEn': 'English label (used when the output language is English)',
+  'dictionary.textEn': 'English description (used when the output language is English)',
+  'dictionary.areas': 'Classification in each framework',
+  'dictionary.areaDefault': 'Default mapping',
+  'dictionary.deleteCategory': 'Delete category',
+  'dictionary.keywords': 'Keywords (comma separated, "term:weight" to set a weight)',
+  'dictionary.phrases': 'Phrases (compound words and expressions)',
+  'dictionary.addCategory': 'Add category',
+};
+
+export const MESSAGES = { ja, en };
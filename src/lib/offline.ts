@@ -0,0 +1,74 @@
+import { useSyncExternalStore } from 'react'
+import type { Task } from '../types'
+import type { LLMProvider, ProviderConfig } from './providers'
+import type { Locale } from './i18n'
+import type { TaxonomyId } from './taxonomy'
+import { isTaxonomyId } from './taxonomy'
+
+// --- オフライン対応（PWA） ---
+// スタンダードモードは通信しないため、Service Worker がバンドルをキャッシュすればオフラインでも使える
+
+export const registerServiceWorker = () => {
+  // 開発サーバーには sw.js がない（ビルド時に生成する）
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => console.error('Service Worker の登録に失敗しました', e));
+  });
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// モックと同じ端末で動く Ollama などはオフラインでも使える
+export const needsNetwork = (provider: LLMProvider, config: ProviderConfig) => {
+  if (provider.id === 'mock') return false;
+  try {
+    return !LOCAL_HOSTS.includes(new URL(config.baseUrl).hostname);
+  } catch {
+    return true;
+  }
+};
+
+// --- オフライン中に入力した業務の保留（接続が戻ったら AI で変換する） ---
+export type QueuedTaskList = {
+  id: string;
+  createdAt: number;
+  language: Locale;
+  taxonomy: TaxonomyId;
+  tasks: Task[];
+};
+
+const QUEUE_KEY = 'pm_offline_queue';
+
+const isQueued = (value: unknown): value is QueuedTaskList => {
+  const q = value as QueuedTaskList;
+  return !!q && typeof q === 'object' && typeof q.id === 'string' && typeof q.createdAt === 'number' &&
+    (q.language === 'ja' || q.language === 'en') && isTaxonomyId(q.taxonomy) &&
+    Array.isArray(q.tasks) && q.tasks.every(t => !!t && typeof t.id === 'string' && typeof t.text === 'string');
+};
+
+export const loadQueue = (): QueuedTaskList[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isQueued) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQueue = (queue: QueuedTaskList[]) => localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+
+export const enqueueTasks = (queue: QueuedTaskList[], tasks: Task[], language: Locale, taxonomy: TaxonomyId, now = Date.now()): QueuedTaskList[] => [
+  ...queue,
+  { id: `queued-${crypto.randomUUID()}`, createdAt: now, language, taxonomy, tasks },
+];
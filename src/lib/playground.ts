@@ -0,0 +1,169 @@
+import type { AIContext } from './ai'
+import { buildSystemPrompt, answerLabel } from './ai'
+import { buildResponseSchema, parseAIResponse } from './structuredOutput'
+import { redactText } from './redaction'
+import type { TokenUsage } from './providers'
+import type { Locale } from './i18n'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES } from './taxonomy'
+
+// --- プロンプトの実験場（デバッグビュー） ---
+// 研修でプロンプトを書き換え、例示・温度・モデルを変えて1件の業務を再実行し、結果を並べて比べる
+
+export type FewShotExample = {
+  id: string;
+  input: string;
+  output: string; // 期待する応答の JSON
+};
+
+// 例示に使う業務（評価用コーパスとは別の文にして、評価に影響しないようにする）
+const EXAMPLES: { id: string; input: string; expected: Record<TaxonomyId, string>; text: Record<Locale, string> }[] = [
+  {
+    id: 'briefing',
+    input: '地域防災計画の見直しにあたり、自治会長への説明と意見聴取を行った',
+    expected: { pmbok6: 'pmbok6.stakeholder', pmbok7: 'pmbok7.stakeholders', eco: 'eco.process.4' },
+    text: { ja: '地域の代表者への説明と意見聴取を通じた合意形成', en: 'Built consensus by briefing community leaders and gathering their feedback' },
+  },
+  {
+    id: 'checklist',
+    input: '証明書の誤交付を防ぐため、照合手順とチェックリストを整備した',
+    expected: { pmbok6: 'pmbok6.quality', pmbok7: 'pmbok7.delivery', eco: 'eco.process.7' },
+    text: { ja: '照合手順の標準化による交付ミスの予防', en: 'Prevented issuance errors by standardizing verification steps' },
+  },
+  {
+    id: 'tender',
+    input: '清掃業務委託の仕様書を作成し、指名競争入札を実施した',
+    expected: { pmbok6: 'pmbok6.procurement', pmbok7: 'pmbok7.project-work', eco: 'eco.process.11' },
+    text: { ja: '仕様策定から入札執行までの調達プロセスの遂行', en: 'Ran the procurement process from specification to tender' },
+  },
+];
+
+export const buildFewShotExamples = (taxonomyId: TaxonomyId, language: Locale): FewShotExample[] =>
+  EXAMPLES.map(e => ({ id: e.id, input: e.input, output: JSON.stringify({ id: e.expected[taxonomyId], text: e.text[language] }) }));
+
+// 例示はシステムプロンプトの末尾に加える（会話に入れると1件目のユーザー発言が業務ではなくなるため）
+export const withExamples = (system: string, examples: FewShotExample[]): string =>
+  examples.length === 0
+    ? system
+    : `${system.trimEnd()}\n\nExamples:\n${examples.map(e => `Task: ${e.input}\nAnswer: ${e.output}`).join('\n\n')}\n`;
+
+export type PromptVersion = {
+  name: string;
+  system: string;
+  examples: string[]; // 有効にした例示の ID
+  temperature?: number; // 未指定ならプロバイダの既定値
+  model?: string; // 未指定ならプロバイダ設定のモデル
+};
+
+export const defaultPromptVersion = (language: Locale, taxonomyId: TaxonomyId): PromptVersion => ({
+  name: 'v1',
+  system: buildSystemPrompt(language, taxonomyId),
+  examples: [],
+});
+
+export type PlaygroundRun = {
+  id: string;
+  version: PromptVersion;
+  input: string; // 伏せ字処理後の送信内容
+  latencyMs: number;
+  request?: unknown;
+  response?: unknown;
+  usage?: TokenUsage;
+  content?: string;
+  result?: { label: string; text: string };
+  errors?: string[]; // 応答の検証エラー
+  error?: string; // 通信エラー
+};
+
+// 学習用に1回だけ送信する（修復依頼は行わず、検証エラーもそのまま見せる）
+export const runPrompt = async (
+  taskText: string,
+  version: PromptVersion,
+  ctx: AIContext,
+  signal?: AbortSignal
+): Promise<PlaygroundRun> => {
+  const taxonomy = TAXONOMIES[ctx.taxonomy];
+  const examples = buildFewShotExamples(ctx.taxonomy, ctx.language).filter(e => version.examples.includes(e.id));
+  const input = redactText(taskText, ctx.redaction).text;
+  const base = { id: `run-${crypto.randomUUID()}`, version, input };
+  const started = performance.now();
+  try {
+    const response = await ctx.provider.complete(
+      {
+        system: withExamples(version.system, examples),
+        messages: [{ role: 'user', content: input }],
+        schema: buildResponseSchema(taxonomy),
+        temperature: version.temperature,
+        signal,
+      },
+      { ...ctx.config, model: version.model || ctx.config.model },
+      ctx.apiKey
+    );
+    const parsed = parseAIResponse(response.text, taxonomy);
+    return {
+      ...base,
+      latencyMs: Math.round(performance.now() - started),
+      request: response.raw?.request,
+      response: response.raw?.response,
+      usage: response.usage,
+      content: response.text,
+      ...(parsed.ok
+        ? { result: { label: answerLabel(parsed.value.entry, ctx.language), text: parsed.value.text } }
+        : { errors: parsed.errors }),
+    };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return { ...base, latencyMs: Math.round(performance.now() - started), error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+// --- 名前付きプリセット（次回の研修でも使えるよう localStorage に保存し、JSON で持ち出せる） ---
+export type PromptPreset = PromptVersion & {
+  id: string;
+  updatedAt: number;
+};
+
+const PRESETS_KEY = 'pm_prompt_presets';
+
+const isPreset = (value: unknown): value is PromptPreset => {
+  const p = value as PromptPreset;
+  return !!p && typeof p === 'object' && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.system === 'string' &&
+    Array.isArray(p.examples) && (p.temperature === undefined || typeof p.temperature === 'number') &&
+    (p.model === undefined || typeof p.model === 'string');
+};
+
+export const loadPresets = (): PromptPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: PromptPreset[]) => localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+
+// 同じ名前のプリセットは上書きする
+export const upsertPreset = (presets: PromptPreset[], version: PromptVersion, now = Date.now()): PromptPreset[] => {
+  const existing = presets.find(p => p.name === version.name);
+  const preset = { ...version, id: existing?.id ?? `preset-${crypto.randomUUID()}`, updatedAt: now };
+  return existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset];
+};
+
+export const exportPresetsJson = (presets: PromptPreset[]): string => JSON.stringify({ version: 1, presets }, null, 2);
+
+// 形式の誤りは画面側で翻訳して表示する（JSON の構文エラーは SyntaxError のまま投げる）
+export class PresetFormatError extends Error {
+  constructor() {
+    super('Invalid preset format');
+    this.name = 'PresetFormatError';
+  }
+}
+
+// 読み込んだプリセットは名前で既存のものとまとめる
+export const importPresetsJson = (json: string, current: PromptPreset[]): PromptPreset[] => {
+  const data = JSON.parse(json);
+  const presets = Array.isArray(data?.presets) ? data.presets : [];
+  if (!presets.every(isPreset)) throw new PresetFormatError();
+  return (presets as PromptPreset[]).reduce((merged, p) => upsertPreset(merged, p, p.updatedAt), current);
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { PROVIDERS } from './providers'
+import { buildSystemPrompt } from './ai'
+
+const mock = PROVIDERS.mock;
+
+const ask = (content: string, signal?: AbortSignal) =>
+  mock.complete({ system: buildSystemPrompt('ja', 'pmbok6'), messages: [{ role: 'user', content }], signal }, mock.defaults, '');
+
+describe('模擬AIプロバイダ', () => {
+  it('辞書分類に対応するエントリの ID で答える', async () => {
+    const { text } = await ask('設備の事故とトラブルに緊急で対処した');
+    expect(JSON.parse(text).id).toBe('pmbok6.risk');
+  });
+
+  it('どのキーワードにも該当しなければ先頭のエントリではなく該当なしと答える', async () => {
+    const { text } = await ask('書類を棚に並べた');
+    expect(JSON.parse(text).id).toBeNull();
+  });
+
+  it('中断済みの依頼は待たずに失敗する', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const started = performance.now();
+    await expect(ask('設備の事故とトラブルに緊急で対処した', controller.signal)).rejects.toThrow();
+    expect(performance.now() - started).toBeLessThan(100);
+  });
+});
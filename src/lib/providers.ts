@@ -0,0 +1,241 @@
+import { classifyText } from './classifier'
+import { TAXONOMIES, categoryEntry } from './taxonomy'
+import { localizeCategory } from './dictionary'
+import { promptLanguage, promptTaxonomy } from './ai'
+import type { StarInput } from './resume'
+import { BULLET_SCHEMA, fillStarTemplate } from './resume'
+
+// --- LLMプロバイダ層 ---
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// プロバイダごとにユーザーが変更できる接続先
+export type ProviderConfig = {
+  baseUrl: string;
+  model: string;
+};
+
+export type ChatMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+export type CompletionRequest = {
+  system: string;
+  messages: ChatMessage[];
+  // 指定時はプロバイダのJSONモード／レスポンススキーマ機能を使う
+  schema?: Record<string, unknown>;
+  temperature?: number; // 未指定ならプロバイダの既定値
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = {
+  input?: number;
+  output?: number;
+};
+
+export type CompletionResponse = {
+  text: string;
+  usage?: TokenUsage;
+  // プロンプト学習用に、送受信したリクエスト・レスポンスの本文をそのまま返す（APIキーは含めない）
+  raw?: { request: unknown; response: unknown };
+};
+
+export type LLMProvider = {
+  id: ProviderId;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+  defaults: ProviderConfig;
+  complete: (req: CompletionRequest, config: ProviderConfig, apiKey: string) => Promise<CompletionResponse>;
+};
+
+// HTTPステータスを保持するエラー（呼び出し側でのリトライ判定用）
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+// クエリ文字列（Azure の api-version など）を保ったままパスを連結する
+const joinUrl = (baseUrl: string, path: string): string => {
+  const [base, query] = baseUrl.split('?');
+  const url = `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    const message = data.error?.message || (typeof data.error === 'string' ? data.error : '') || `HTTP ${response.status}`;
+    throw new ProviderError(message, response.status);
+  }
+  return data;
+};
+
+const gemini: LLMProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  description: 'Google AI Studio の Gemini API',
+  requiresApiKey: true,
+  defaults: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.5-flash-lite' },
+  complete: async (req, config, apiKey) => {
+    const url = joinUrl(config.baseUrl, `models/${config.model}:generateContent?key=${encodeURIComponent(apiKey)}`);
+    const body = {
+      system_instruction: { parts: [{ text: req.system }] },
+      contents: req.messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      generationConfig: {
+        ...(req.schema && { responseMimeType: 'application/json', responseSchema: req.schema }),
+        ...(req.temperature !== undefined && { temperature: req.temperature }),
+      },
+    };
+    const data = await postJson(url, body, {}, req.signal);
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new ProviderError('No content generated');
+    const usage = { input: data.usageMetadata?.promptTokenCount, output: data.usageMetadata?.candidatesTokenCount };
+    return { text, usage, raw: { request: body, response: data } };
+  },
+};
+
+// OpenAI / Azure OpenAI / llama.cpp server などの Chat Completions 互換API
+const openai: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI互換',
+  description: 'OpenAI・Azure OpenAI・llama.cpp など Chat Completions 互換のエンドポイント',
+  requiresApiKey: false,
+  defaults: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  complete: async (req, config, apiKey) => {
+    // Azure は Authorization ではなく api-key ヘッダーで認証する
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      if (config.baseUrl.includes('.openai.azure.com')) headers['api-key'] = apiKey;
+      else headers.Authorization = `Bearer ${apiKey}`;
+    }
+    const body = {
+      model: config.model,
+      messages: [{ role: 'system', content: req.system }, ...req.messages],
+      // json_schema 非対応の互換サーバーが多いため json_object を使う
+      ...(req.schema && { response_format: { type: 'json_object' } }),
+      ...(req.temperature !== undefined && { temperature: req.temperature }),
+    };
+    const data = await postJson(joinUrl(config.baseUrl, 'chat/completions'), body, headers, req.signal);
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new ProviderError('No content generated');
+    const usage = { input: data.usage?.prompt_tokens, output: data.usage?.completion_tokens };
+    return { text, usage, raw: { request: body, response: data } };
+  },
+};
+
+const ollama: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  description: '庁内サーバー等で動作する Ollama（APIキー不要）',
+  requiresApiKey: false,
+  defaults: { baseUrl: 'http://localhost:11434', model: 'llama3.1' },
+  complete: async (req, config) => {
+    const body = {
+      model: config.model,
+      stream: false,
+      messages: [{ role: 'system', content: req.system }, ...req.messages],
+      ...(req.schema && { format: req.schema }),
+      ...(req.temperature !== undefined && { options: { temperature: req.temperature } }),
+    };
+    const data = await postJson(joinUrl(config.baseUrl, 'api/chat'), body, {}, req.signal);
+    const text = data.message?.content;
+    if (!text) throw new ProviderError('No content generated');
+    const usage = { input: data.prompt_eval_count, output: data.eval_count };
+    return { text, usage, raw: { request: body, response: data } };
+  },
+};
+
+// オフラインのデモ・テスト用。辞書分類の結果を同じ入力に対して常に同じJSONで返す
+const mock: LLMProvider = {
+  id: 'mock',
+  name: 'デモ（オフライン）',
+  description: 'ネットワークを使わない模擬AI。研修のデモや動作確認用',
+  requiresApiKey: false,
+  defaults: { baseUrl: 'mock://local', model: 'mock-1' },
+  complete: async (req) => {
+    const firstUser = req.messages.find(m => m.role === 'user');
+    const input = firstUser?.content ?? '';
+    // 中断済みの依頼は待たずに終える
+    req.signal?.throwIfAborted();
+    // 進捗表示を確認できるよう、入力長に応じた一定の待ち時間を入れる
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, 300 + (input.length % 10) * 50);
+      req.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    });
+    // 経歴書の箇条書きの依頼にはスタンダードモードと同じテンプレートで答える
+    if (req.schema === BULLET_SCHEMA) {
+      return { text: JSON.stringify({ bullets: fillStarTemplate(JSON.parse(input) as StarInput, promptLanguage(req.system)) }) };
+    }
+    const { primary } = classifyText(input);
+    const { text } = localizeCategory(primary, promptLanguage(req.system));
+    const taxonomy = TAXONOMIES[promptTaxonomy(req.system)];
+    // どのエントリにも対応しない場合は、辞書分類と同じく該当なし（id: null）と答える
+    const reply = JSON.stringify({ id: categoryEntry(primary, taxonomy)?.id ?? null, text });
+    // 通信はしないが、プロンプト学習用に送ったはずの内容を返す
+    return {
+      text: reply,
+      raw: { request: { system: req.system, messages: req.messages, temperature: req.temperature }, response: { text: reply } },
+    };
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = { gemini, openai, ollama, mock };
+
+// --- 設定の永続化（APIキーは含めない） ---
+export type ProviderSettings = {
+  active: ProviderId;
+  configs: Record<ProviderId, ProviderConfig>;
+};
+
+const SETTINGS_KEY = 'pm_provider_settings';
+
+export const defaultProviderSettings = (): ProviderSettings => ({
+  active: 'gemini',
+  configs: {
+    gemini: { ...gemini.defaults },
+    openai: { ...openai.defaults },
+    ollama: { ...ollama.defaults },
+    mock: { ...mock.defaults },
+  },
+});
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const defaults = defaultProviderSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || !(saved.active in PROVIDERS)) return defaults;
+    return {
+      active: saved.active,
+      configs: {
+        gemini: { ...defaults.configs.gemini, ...saved.configs?.gemini },
+        openai: { ...defaults.configs.openai, ...saved.configs?.openai },
+        ollama: { ...defaults.configs.ollama, ...saved.configs?.ollama },
+        mock: { ...defaults.configs.mock, ...saved.configs?.mock },
+      },
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// APIキーはタブを閉じると消える sessionStorage にプロバイダ別で保存する
+export const apiKeyStorageKey = (id: ProviderId) => `${id}_api_key`;
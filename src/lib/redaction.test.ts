@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { RedactionSettings } from './redaction'
+import { redactText, DEFAULT_REDACTION_SETTINGS } from './redaction'
+
+const redact = (text: string, settings: RedactionSettings = DEFAULT_REDACTION_SETTINGS) => redactText(text, settings).text;
+
+describe('redactText', () => {
+  it('住所・電話番号・メール・個人番号・案件番号を伏せる', () => {
+    expect(redact('東京都千代田区霞が関1-2-3 の事務所')).toBe('[住所1] の事務所');
+    expect(redact('連絡先は 03-1234-5678 と taro@example.jp')).toBe('連絡先は [電話番号1] と [メール1]');
+    expect(redact('個人番号 1234 5678 9012 を確認')).toBe('個人番号 [個人番号1] を確認');
+    expect(redact('案件番号：R6-0123 を処理した')).toBe('[案件番号1] を処理した');
+  });
+
+  it('都道府県のない住所も市区町村名と番地があれば伏せる', () => {
+    expect(redact('横浜市中区本町6丁目50番地で説明会')).toBe('[住所1]で説明会');
+  });
+
+  it('郵便番号は伏せるが、電話番号の一部を郵便番号とみなさない', () => {
+    expect(redact('〒100-8914 に郵送した')).toBe('[住所1] に郵送した');
+    expect(redact('携帯 090-1234-5678 に連絡')).toBe('携帯 [電話番号1] に連絡');
+  });
+
+  it('地区・学区などの業務の説明は住所として伏せない', () => {
+    for (const text of ['第3地区の2番目の案件を担当した', '学区1-2-3の再編を検討した', '選挙区5-1-2の調整を行った']) {
+      expect(redact(text)).toBe(text);
+    }
+  });
+
+  it('同じ語には同じ伏せ字を割り当てる', () => {
+    expect(redact('田中様と佐藤様に説明し、田中様から回答を得た')).toBe('[氏名1]と[氏名2]に説明し、[氏名1]から回答を得た');
+  });
+
+  it('お客様・住民の皆様などは氏名として扱わない', () => {
+    const text = 'お客様と住民の皆様、関係者様に周知した';
+    expect(redact(text)).toBe(text);
+  });
+
+  it('利用者が指定した語を長いものから伏せる', () => {
+    const settings = { ...DEFAULT_REDACTION_SETTINGS, blocklist: ['山田', '山田建設'] };
+    expect(redact('山田建設と山田に依頼した', settings)).toBe('[伏字1]と[伏字2]に依頼した');
+  });
+
+  it('無効にした規則と、全体を無効にした設定では伏せない', () => {
+    const noPhone = { ...DEFAULT_REDACTION_SETTINGS, rules: { ...DEFAULT_REDACTION_SETTINGS.rules, phone: false } };
+    expect(redact('03-1234-5678', noPhone)).toBe('03-1234-5678');
+    expect(redact('taro@example.jp', { ...DEFAULT_REDACTION_SETTINGS, enabled: false })).toBe('taro@example.jp');
+  });
+
+  it('差分表示用の区切りは元の文章を復元できる', () => {
+    const { segments } = redactText('田中様の電話 090-1234-5678', DEFAULT_REDACTION_SETTINGS);
+    expect(segments.map(s => s.text).join('')).toBe('田中様の電話 090-1234-5678');
+    expect(segments.filter(s => s.match).map(s => s.match?.rule)).toEqual(['name', 'phone']);
+  });
+});
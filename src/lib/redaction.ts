@@ -0,0 +1,163 @@
+// --- 個人情報・機密情報の伏せ字処理（AIへ送信する前にブラウザ内で実行） ---
+export type RedactionRule = 'name' | 'address' | 'phone' | 'myNumber' | 'email' | 'caseNumber' | 'blocklist';
+
+export type RedactionSettings = {
+  enabled: boolean;
+  rules: Record<RedactionRule, boolean>;
+  blocklist: string[]; // 事業者名・施設名など、利用者が指定する語
+};
+
+export type RedactionMatch = {
+  start: number;
+  end: number;
+  rule: RedactionRule;
+  original: string;
+  placeholder: string;
+};
+
+// 差分表示用。伏せ字にした箇所は match を持つ
+export type RedactionSegment = {
+  text: string;
+  match?: RedactionMatch;
+};
+
+export type RedactionResult = {
+  text: string;
+  matches: RedactionMatch[];
+  segments: RedactionSegment[];
+};
+
+// 伏せ字の表記は送信内容の一部なので、画面の表示言語にかかわらず固定にする
+export const REDACTION_RULES: { id: RedactionRule; placeholder: string }[] = [
+  { id: 'name', placeholder: '氏名' },
+  { id: 'address', placeholder: '住所' },
+  { id: 'phone', placeholder: '電話番号' },
+  { id: 'myNumber', placeholder: '個人番号' },
+  { id: 'email', placeholder: 'メール' },
+  { id: 'caseNumber', placeholder: '案件番号' },
+  { id: 'blocklist', placeholder: '伏字' },
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  rules: { name: true, address: true, phone: true, myNumber: true, email: true, caseNumber: true, blocklist: true },
+  blocklist: [],
+};
+
+const STORAGE_KEY = 'pm_redaction_settings';
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved) return DEFAULT_REDACTION_SETTINGS;
+    return {
+      enabled: saved.enabled !== false,
+      rules: { ...DEFAULT_REDACTION_SETTINGS.rules, ...saved.rules },
+      blocklist: Array.isArray(saved.blocklist) ? saved.blocklist.map(String) : [],
+    };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+// --- 検出パターン ---
+const DIGIT = '[0-9０-９]';
+const HYPHEN_CHARS = '\\-－‐ー−';
+const HYPHEN = `[${HYPHEN_CHARS}]`;
+const PREFECTURE = '(?:東京都|北海道|大阪府|京都府|[一-龥]{2,3}県)';
+// 「区」で終わっても自治体名ではない語（「第3地区の2番目の案件」などを住所として伏せない）
+const NON_MUNICIPAL_WARDS = ['地', '学', '校', '選挙', '管'];
+const MUNICIPALITY = `[一-龥ヶ]{1,6}?(?:[市町村郡]|(?<!${NON_MUNICIPAL_WARDS.join('|')})区)`;
+const BLOCK_NUMBER = '[0-9０-９一二三四五六七八九十]+';
+const BLOCK_REST = `[0-9０-９一二三四五六七八九十${HYPHEN_CHARS}番地号]*`;
+
+const PATTERNS: Record<Exclude<RedactionRule, 'blocklist'>, RegExp> = {
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  // 4桁ずつ区切られた12桁の数字
+  myNumber: new RegExp(`(?<!${DIGIT})${DIGIT}{4}[\\s${HYPHEN_CHARS}]?${DIGIT}{4}[\\s${HYPHEN_CHARS}]?${DIGIT}{4}(?!${DIGIT})`, 'g'),
+  // 固定電話・携帯（市外局番の括弧書きも含む）
+  phone: new RegExp(`(?<!${DIGIT})[0０]${DIGIT}{1,4}(?:${HYPHEN}|[(（])${DIGIT}{1,4}(?:${HYPHEN}|[)）])${DIGIT}{3,4}(?!${DIGIT})|(?<!${DIGIT})[0０][789７８９][0０]${DIGIT}{8}(?!${DIGIT})`, 'g'),
+  // 郵便番号、都道府県から始まる住所、または市区町村名に続く丁目・番地（1-2-3 形式を含む）
+  // 郵便番号は前後に数字が続かないものだけ（電話番号の一部を郵便番号とみなさない）
+  address: new RegExp(
+    `〒?\\s?(?<!${DIGIT}|${HYPHEN})${DIGIT}{3}${HYPHEN}${DIGIT}{4}(?!${DIGIT}|${HYPHEN}${DIGIT})` +
+    `|${PREFECTURE}${MUNICIPALITY}[^\\s、。,]{0,12}?${BLOCK_NUMBER}(?:丁目|番地?|${HYPHEN})${BLOCK_REST}` +
+    `|${MUNICIPALITY}[^\\s、。,]{0,12}?${BLOCK_NUMBER}(?:丁目|番地|${HYPHEN}${BLOCK_NUMBER}${HYPHEN})${BLOCK_REST}`,
+    'g'
+  ),
+  // 「案件番号：R6-0123」「受付No.12345」など
+  caseNumber: /(?:案件|受付|管理|整理|申請)(?:番号|No\.?|№)\s*[:：]?\s*[A-Za-z0-9０-９\-－]+|\b[A-Z]{1,3}\d{0,2}-\d{3,}\b/g,
+  // 漢字・カタカナの並びに敬称が続くもの
+  name: /[一-龥々ァ-ヶー]{1,8}(?:様|さま|さん|氏|殿|君|くん|ちゃん)/g,
+};
+
+// 敬称が付いても個人を特定しない語（「お客様」「住民の皆様」など）
+const NAME_EXCEPTIONS = ['客', '皆', '各位', '住民', '市民', '町民', '村民', '区民', '利用者', '相談者', '申請者', '担当者', '関係者', '業者', '事業者', '来庁者', '議員', '奥', '神', '王'];
+
+const isNameException = (value: string) => {
+  const stem = value.replace(/(?:様|さま|さん|氏|殿|君|くん|ちゃん)$/, '');
+  return NAME_EXCEPTIONS.some(e => stem === e || stem.endsWith(e));
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findMatches = (text: string, settings: RedactionSettings) => {
+  const found: Omit<RedactionMatch, 'placeholder'>[] = [];
+  const collect = (rule: RedactionRule, pattern: RegExp) => {
+    for (const m of text.matchAll(pattern)) {
+      if (!m[0].trim() || (rule === 'name' && isNameException(m[0]))) continue;
+      found.push({ start: m.index, end: m.index + m[0].length, rule, original: m[0] });
+    }
+  };
+
+  const terms = settings.blocklist.map(t => t.trim()).filter(Boolean);
+  if (settings.rules.blocklist && terms.length > 0) {
+    collect('blocklist', new RegExp(terms.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'), 'g'));
+  }
+  for (const [rule, pattern] of Object.entries(PATTERNS) as [RedactionRule, RegExp][]) {
+    if (settings.rules[rule]) collect(rule, pattern);
+  }
+
+  // 重なる場合は先に始まるもの、同じ位置なら長いものを残す
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: typeof found = [];
+  for (const m of found) {
+    const last = result[result.length - 1];
+    if (last && m.start < last.end) continue;
+    result.push(m);
+  }
+  return result;
+};
+
+export const redactText = (text: string, settings: RedactionSettings): RedactionResult => {
+  if (!settings.enabled) return { text, matches: [], segments: [{ text }] };
+
+  // 同じ語には同じ伏せ字を割り当て、AIが同一人物だと分かるようにする
+  const counters = new Map<RedactionRule, number>();
+  const assigned = new Map<string, string>();
+  const matches = findMatches(text, settings).map(m => {
+    const key = `${m.rule}:${m.original}`;
+    let placeholder = assigned.get(key);
+    if (!placeholder) {
+      const n = (counters.get(m.rule) ?? 0) + 1;
+      counters.set(m.rule, n);
+      placeholder = `[${REDACTION_RULES.find(r => r.id === m.rule)?.placeholder}${n}]`;
+      assigned.set(key, placeholder);
+    }
+    return { ...m, placeholder };
+  });
+
+  const segments: RedactionSegment[] = [];
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.start > cursor) segments.push({ text: text.slice(cursor, match.start) });
+    segments.push({ text: match.original, match });
+    cursor = match.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+
+  return { text: segments.map(s => s.match?.placeholder ?? s.text).join(''), matches, segments };
+};
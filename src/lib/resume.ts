@@ -0,0 +1,162 @@
+import type { Task, SkillCategory, AchievementContext, DebugLog } from '../types'
+import type { ChatMessage } from './providers'
+import type { DictionaryCategory } from './dictionary'
+import type { AIContext } from './ai'
+import { MAX_REPAIR_ATTEMPTS } from './ai'
+import type { Locale } from './i18n'
+import { extractJson } from './structuredOutput'
+import { redactText } from './redaction'
+import { resolveArea } from './analytics'
+import type { TaxonomyId } from './taxonomy'
+import { TAXONOMIES } from './taxonomy'
+
+// --- 経歴書の箇条書き（STAR形式: 状況・課題・行動・成果） ---
+export const ACHIEVEMENT_FIELDS: (keyof AchievementContext)[] = ['scale', 'stakeholders', 'outcome', 'numbers'];
+
+// 箇条書きの材料（業務・分類先・カードの説明文と追加質問への回答）
+export type StarInput = AchievementContext & {
+  task: string;
+  area: string; // 分類体系の公式英語名（ECO はドメイン名。対応しない場合は空）
+  areaId?: string;
+  action: string;
+};
+
+export type BulletOutcome = { bullets: string[]; log: DebugLog };
+
+// 集計の軸ごとの動詞（英語は文頭、日本語は体言止めの文末に置く）
+const ACTION_VERBS: Record<string, Record<Locale, string>> = {
+  'pmbok6.integration': { en: 'Orchestrated', ja: '統括' },
+  'pmbok6.scope': { en: 'Defined', ja: '明確化' },
+  'pmbok6.schedule': { en: 'Drove', ja: '推進' },
+  'pmbok6.cost': { en: 'Optimized', ja: '効率化' },
+  'pmbok6.quality': { en: 'Improved', ja: '改善' },
+  'pmbok6.resource': { en: 'Mobilized', ja: '指揮' },
+  'pmbok6.communications': { en: 'Facilitated', ja: '運営' },
+  'pmbok6.risk': { en: 'Spearheaded', ja: '陣頭指揮' },
+  'pmbok6.procurement': { en: 'Negotiated', ja: '遂行' },
+  'pmbok6.stakeholder': { en: 'Led', ja: '主導' },
+  'pmbok7.stakeholders': { en: 'Led', ja: '主導' },
+  'pmbok7.team': { en: 'Mobilized', ja: '指揮' },
+  'pmbok7.development-approach': { en: 'Tailored', ja: '設計' },
+  'pmbok7.planning': { en: 'Defined', ja: '策定' },
+  'pmbok7.project-work': { en: 'Drove', ja: '推進' },
+  'pmbok7.delivery': { en: 'Delivered', ja: '実現' },
+  'pmbok7.measurement': { en: 'Analyzed', ja: '分析' },
+  'pmbok7.uncertainty': { en: 'Spearheaded', ja: '陣頭指揮' },
+  'eco.people': { en: 'Led', ja: '主導' },
+  'eco.process': { en: 'Drove', ja: '推進' },
+  'eco.business': { en: 'Championed', ja: '牽引' },
+};
+
+const DEFAULT_VERB: Record<Locale, string> = { en: 'Led', ja: '主導' };
+
+const present = (value?: string) => value?.trim() || undefined;
+
+const JAPANESE_TEXT = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+// 文末の句点・ピリオドを揃える
+const sentence = (text: string, language: Locale) => {
+  const trimmed = text.trim().replace(/[。．.、,\s]+$/, '');
+  return language === 'ja' ? `${trimmed}。` : `${trimmed}.`;
+};
+
+export const buildStarInput = (task: Task, result: SkillCategory, categories: DictionaryCategory[], taxonomyId: TaxonomyId): StarInput => {
+  const area = resolveArea(result, categories, TAXONOMIES[taxonomyId]);
+  return { ...task.achievement, task: task.text, area: area?.label ?? '', areaId: area?.id, action: result.text };
+};
+
+// スタンダードモード: 辞書カテゴリの説明文と回答をテンプレートに埋め込む
+export const fillStarTemplate = (input: StarInput, language: Locale): string[] => {
+  const verb = (input.areaId && ACTION_VERBS[input.areaId]?.[language]) || DEFAULT_VERB[language];
+  const scale = present(input.scale);
+  const stakeholders = present(input.stakeholders);
+  const outcome = present(input.outcome);
+  const numbers = present(input.numbers);
+  const bullets: string[] = [];
+
+  // 業務の文は動詞で終わることが多いため、動詞を後ろに付けず「〜した業務: 業務」の形で並べる
+  if (language === 'ja') {
+    const situation = [scale && `${scale}を対象に`, stakeholders && `${stakeholders}と連携して`].filter(Boolean).join('、');
+    bullets.push(sentence(`${situation}${verb}した業務: ${input.task}`, language));
+    if (present(input.action)) bullets.push(sentence(input.action, language));
+    if (outcome) bullets.push(sentence(`${outcome}を実現${numbers ? `（${numbers}）` : ''}`, language));
+    else if (numbers) bullets.push(sentence(`成果: ${numbers}`, language));
+  } else {
+    // 日本語で入力した業務は英文に埋め込まず、分類先の名前で言い表す
+    const task = JAPANESE_TEXT.test(input.task) ? undefined : present(input.task);
+    const situation = [scale && `across ${scale}`, stakeholders && `working with ${stakeholders}`].filter(Boolean).join(', ');
+    bullets.push(sentence(`${verb} ${input.area || 'project management'} work${situation ? ` ${situation}` : ''}${task ? `: ${task}` : ''}`, language));
+    if (present(input.action)) bullets.push(sentence(`Applied ${input.area || 'project management'} practices: ${input.action}`, language));
+    if (outcome) bullets.push(sentence(`Delivered ${outcome}${numbers ? ` (${numbers})` : ''}`, language));
+    else if (numbers) bullets.push(sentence(`Achieved measurable results: ${numbers}`, language));
+  }
+  return bullets;
+};
+
+// --- AIモード（専用プロンプト） ---
+export const BULLET_SCHEMA = {
+  type: 'object',
+  properties: {
+    bullets: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+  },
+  required: ['bullets'],
+};
+
+export const buildBulletPrompt = (language: Locale = 'ja') => `
+You are a career coach for public-sector employees moving into project management.
+Write resume achievement bullets in the STAR format (Situation, Task, Action, Result) for the task described by the user.
+Output language: ${language}
+The user sends a JSON object with "task", the project management "area" (with its "areaId"), the skill "action" and optional "scale", "stakeholders", "outcome" and "numbers".
+Rules:
+- Write 2 or 3 bullets in ${language === 'ja' ? 'Japanese, ending each with a strong verb noun such as 主導, 推進 or 統括 (体言止め)' : 'English, starting each with a strong action verb such as Led, Orchestrated or Negotiated'}.
+- Use only the facts given. Never invent numbers; describe the result qualitatively when no numbers are given.
+- Keep each bullet under ${language === 'ja' ? '60 characters' : '25 words'}.
+Return ONLY a JSON object with the following structure (no markdown):
+{ "bullets": ["...", "..."] }
+`;
+
+export const parseBulletResponse = (content: string): { ok: true; bullets: string[] } | { ok: false; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch (e) {
+    return { ok: false, errors: [`JSONとして解釈できません: ${(e as Error).message}`] };
+  }
+  const bullets = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).bullets : undefined;
+  if (!Array.isArray(bullets)) return { ok: false, errors: ['bullets は文字列の配列である必要があります'] };
+  const texts = bullets.filter((b): b is string => typeof b === 'string' && b.trim() !== '').map(b => b.trim());
+  return texts.length > 0 ? { ok: true, bullets: texts.slice(0, 3) } : { ok: false, errors: ['bullets に空でない文字列が1件以上必要です'] };
+};
+
+// 利用者が入力・編集できる項目（業務・回答・カードの説明文）は伏せ字処理して送る。修復しきれなかった場合はテンプレートで代替する
+export const generateBulletsWithAI = async (input: StarInput, ctx: AIContext, signal?: AbortSignal): Promise<BulletOutcome> => {
+  const redact = (value?: string) => (value ? redactText(value, ctx.redaction).text : value);
+  const payload = JSON.stringify({
+    ...Object.fromEntries(ACHIEVEMENT_FIELDS.map(field => [field, redact(input[field])])),
+    task: redact(input.task),
+    area: input.area,
+    areaId: input.areaId,
+    action: redact(input.action),
+  });
+  const system = buildBulletPrompt(ctx.language);
+  const messages: ChatMessage[] = [{ role: 'user', content: payload }];
+  const responses: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const { text: content } = await ctx.provider.complete({ system, messages, schema: BULLET_SCHEMA, signal }, ctx.config, ctx.apiKey);
+    responses.push(content);
+    const parsed = parseBulletResponse(content);
+    if (parsed.ok) {
+      return { bullets: parsed.bullets, log: { prompt: system, input: payload, response: content, attempts: attempt + 1 } };
+    }
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: `Your previous reply could not be accepted:\n${parsed.errors.map(e => `- ${e}`).join('\n')}\nReturn ONLY the corrected JSON object with "bullets".` }
+    );
+  }
+
+  return {
+    bullets: fillStarTemplate(input, ctx.language),
+    log: { prompt: system, input: payload, response: responses.join('\n---\n'), attempts: responses.length },
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { SharedSession } from './share'
+import { createShareUrl, parseShareFragment, decodeShareLink } from './share'
+
+const BASE_URL = 'https://example.com/app/?lang=ja';
+
+const SESSION: SharedSession = {
+  title: '2024年度 経歴書',
+  mode: 'standard',
+  dictionary: '標準辞書',
+  language: 'en',
+  taxonomy: 'pmbok7',
+  inputs: ['台風に備えて避難所の開設準備を進めた'],
+  results: [{
+    label: 'Uncertainty',
+    text: 'Rapid problem resolution',
+    areaId: 'pmbok7.uncertainty',
+    iconKey: 'AlertTriangle',
+    color: 'text-red-500',
+    bg: 'bg-red-50',
+    confidence: 0.8,
+    runnersUp: [{ id: 'pmbok7.planning', label: 'Planning', score: 1, confidence: 0.2 }],
+    source: 'standard',
+  }],
+  details: [{ hours: 3, achievement: { outcome: '開設時間を短縮' } }],
+};
+
+// URL の組み立てと読み取りを通して元の経歴書に戻す
+const roundTrip = async (session: SharedSession, passphrase = '', unlock = passphrase) => {
+  const url = new URL(await createShareUrl(session, BASE_URL, passphrase));
+  const link = parseShareFragment(url.hash);
+  if (!link) throw new Error('共有リンクとして読めません');
+  return { url, link, decoded: await decodeShareLink(link, unlock) };
+};
+
+// 細工したリンクを作るため、型に合わない結果を埋め込む
+const withResult = (result: Record<string, unknown>): SharedSession =>
+  ({ ...SESSION, results: [result as unknown as SharedSession['results'][number]] });
+
+describe('共有リンク', () => {
+  it('暗号化しないリンクはそのまま元の経歴書に戻る', async () => {
+    const { url, link, decoded } = await roundTrip(SESSION);
+    expect(url.search).toBe('?lang=ja');
+    expect(link).toMatchObject({ version: 1, encrypted: false });
+    expect(decoded).toEqual({ ok: true, session: SESSION });
+  });
+
+  it('合言葉で暗号化したリンクは同じ合言葉でだけ開ける', async () => {
+    const { link, decoded } = await roundTrip(SESSION, 'correct horse');
+    expect(link.encrypted).toBe(true);
+    expect(decoded).toEqual({ ok: true, session: SESSION });
+    expect(await decodeShareLink(link, 'wrong horse')).toEqual({ ok: false, error: 'wrongPassphrase' });
+  }, 30_000);
+
+  it('共有リンクでないフラグメントは null、未対応の版・壊れたデータはエラーにする', async () => {
+    expect(parseShareFragment('#results')).toBeNull();
+    expect(parseShareFragment('#share/x/p/abc')).toBeNull();
+    expect(await decodeShareLink({ version: 99, encrypted: false, data: 'abc' })).toEqual({ ok: false, error: 'unsupportedVersion' });
+    expect(await decodeShareLink({ version: 1, encrypted: false, data: '!!!' })).toEqual({ ok: false, error: 'corrupted' });
+    expect(await decodeShareLink({ version: 1, encrypted: false, data: 'AAAA' })).toEqual({ ok: false, error: 'corrupted' });
+  });
+
+  it('入力と結果の件数が合わないリンクは壊れたものとして扱う', async () => {
+    const { decoded } = await roundTrip({ ...SESSION, inputs: [...SESSION.inputs, '追加の業務'] });
+    expect(decoded).toEqual({ ok: false, error: 'corrupted' });
+  });
+
+  it('アプリにないアイコン・色は既定のものに置き換える', async () => {
+    const { decoded } = await roundTrip(withResult({ ...SESSION.results[0], iconKey: 'constructor', color: 'text-[url(x)]', bg: 'bg-red-50' }));
+    expect(decoded.ok && decoded.session.results[0]).toMatchObject({ iconKey: 'Briefcase', color: 'text-slate-500', bg: 'bg-slate-50' });
+  });
+
+  it('形の違う任意項目は捨て、必須項目は残す', async () => {
+    const { decoded } = await roundTrip({
+      ...withResult({
+        ...SESSION.results[0],
+        confidence: 'high',
+        runnersUp: [{ id: 'pmbok7.planning' }, SESSION.results[0].runnersUp?.[0]],
+        secondary: 'x',
+        source: 'hacked',
+        bullets: [1, 2],
+      }),
+      details: [{ id: 'other', text: '上書き', hours: '3', date: '2024-04-01' }] as unknown as SharedSession['details'],
+    });
+    expect(decoded.ok).toBe(true);
+    if (!decoded.ok) return;
+    const [result] = decoded.session.results;
+    expect(result).toMatchObject({ label: 'Uncertainty', text: 'Rapid problem resolution' });
+    expect(result.confidence).toBeUndefined();
+    expect(result.runnersUp).toEqual(SESSION.results[0].runnersUp);
+    expect(result.secondary).toBeUndefined();
+    expect(result.source).toBeUndefined();
+    expect(result.bullets).toBeUndefined();
+    expect(decoded.session.details).toEqual([{ date: '2024-04-01' }]);
+  });
+});
@@ -0,0 +1,183 @@
+import type { SkillCategory, TaskDetail, RankedArea, ResultSource, AchievementContext } from '../types'
+import type { SavedSession } from './history'
+import { isTaxonomyId } from './taxonomy'
+import { isIconKey, isResultColor, COLOR_PALETTE } from './icons'
+import { toBase64Url, fromBase64Url, deriveKey, encryptBytes, decryptBytes } from './webCrypto'
+
+// --- 共有リンク（サーバーを使わず URL のフラグメントに経歴書を埋め込む） ---
+// #share/<版>/<p|e>/<データ>
+//   p: JSON を deflate-raw で圧縮して Base64URL にしたもの
+//   e: 圧縮したものを合言葉で暗号化したもの（salt 16 バイト | iv 12 バイト | 暗号文）
+// フラグメントはサーバーに送られないため、リンクを開いても内容はどこにも記録されない
+export type SharedSession = Pick<SavedSession, 'title' | 'mode' | 'dictionary' | 'provider' | 'model' | 'language' | 'taxonomy' | 'inputs' | 'results' | 'details'>;
+
+export type ShareLink = {
+  version: number;
+  encrypted: boolean;
+  data: string;
+};
+
+export type ShareError = 'unsupportedVersion' | 'wrongPassphrase' | 'corrupted';
+
+export type ShareDecodeResult =
+  | { ok: true; session: SharedSession }
+  | { ok: false; error: ShareError };
+
+const PREFIX = '#share/';
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// 版ごとの読み方。形式を変えるときは版を上げて追加し、古いリンクも開けるように残しておく
+type ShareFormat = {
+  iterations: number; // 暗号化リンクの鍵の導出回数
+  parse: (value: unknown) => SharedSession | null;
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const RESULT_SOURCES: ResultSource[] = ['standard', 'ai', 'repaired', 'fallback', 'manual'];
+
+const isRanked = (value: unknown): value is RankedArea => {
+  const a = value as RankedArea;
+  return !!a && typeof a === 'object' && typeof a.id === 'string' && typeof a.label === 'string' &&
+    optionalNumber(a.score) !== undefined && optionalNumber(a.confidence) !== undefined;
+};
+
+// 必須項目がそろわないカードは壊れたリンクとして扱い、任意項目は形が違えば捨てる
+// （細工したリンクで結果画面の描画が止まらないようにする）
+const parseResult = (value: unknown): SkillCategory | null => {
+  const r = value as SkillCategory;
+  if (!r || typeof r !== 'object' || typeof r.label !== 'string' || typeof r.text !== 'string' ||
+    typeof r.iconKey !== 'string' || typeof r.color !== 'string' || typeof r.bg !== 'string') return null;
+  // アイコンと色はリンクの値をそのまま使わず、アプリにあるものだけを認める
+  const palette = isResultColor(r.color, r.bg) ? { color: r.color, bg: r.bg } : COLOR_PALETTE.slate;
+  return {
+    label: r.label,
+    text: r.text,
+    iconKey: isIconKey(r.iconKey) ? r.iconKey : 'Briefcase',
+    ...palette,
+    areaId: optionalString(r.areaId),
+    isError: r.isError === true || undefined,
+    confidence: optionalNumber(r.confidence),
+    secondary: isRanked(r.secondary) ? r.secondary : undefined,
+    runnersUp: Array.isArray(r.runnersUp) ? r.runnersUp.filter(isRanked) : undefined,
+    source: RESULT_SOURCES.includes(r.source as ResultSource) ? r.source : undefined,
+    bullets: isStringArray(r.bullets) ? r.bullets : undefined,
+  };
+};
+
+const ACHIEVEMENT_KEYS: (keyof AchievementContext)[] = ['scale', 'stakeholders', 'outcome', 'numbers'];
+
+const parseAchievement = (value: unknown): AchievementContext | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const a = value as AchievementContext;
+  return Object.fromEntries(ACHIEVEMENT_KEYS.filter(key => typeof a[key] === 'string').map(key => [key, a[key]]));
+};
+
+// 業務の ID・本文を上書きされないよう、付帯情報は既知の項目だけを取り出す
+const parseDetail = (value: unknown): TaskDetail => {
+  const d = (value && typeof value === 'object' ? value : {}) as TaskDetail;
+  const achievement = parseAchievement(d.achievement);
+  return {
+    ...(optionalNumber(d.hours) !== undefined ? { hours: d.hours } : {}),
+    ...(optionalNumber(d.frequency) !== undefined ? { frequency: d.frequency } : {}),
+    ...(typeof d.date === 'string' ? { date: d.date } : {}),
+    ...(achievement ? { achievement } : {}),
+  };
+};
+
+const parseV1 = (value: unknown): SharedSession | null => {
+  const s = value as SharedSession;
+  if (!s || typeof s !== 'object' || typeof s.title !== 'string' || (s.mode !== 'standard' && s.mode !== 'ai')) return null;
+  if (!isStringArray(s.inputs) || !Array.isArray(s.results) || s.results.length !== s.inputs.length) return null;
+  const results = s.results.map(parseResult);
+  if (!results.every(r => r !== null)) return null;
+  const details = Array.isArray(s.details) && s.details.length === s.inputs.length
+    ? s.details.map(parseDetail)
+    : undefined;
+  return {
+    title: s.title,
+    mode: s.mode,
+    dictionary: optionalString(s.dictionary),
+    provider: optionalString(s.provider),
+    model: optionalString(s.model),
+    // 旧バージョンの履歴と同じく、未設定なら日本語・PMBOK 第6版として扱う
+    language: s.language === 'en' ? 'en' : 'ja',
+    taxonomy: isTaxonomyId(s.taxonomy) ? s.taxonomy : undefined,
+    inputs: s.inputs,
+    results,
+    details,
+  };
+};
+
+const FORMATS: Record<number, ShareFormat> = {
+  1: { iterations: 600_000, parse: parseV1 },
+};
+
+const CURRENT_VERSION = 1;
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const compress = (bytes: Uint8Array) => pipe(bytes, new CompressionStream('deflate-raw'));
+const decompress = (bytes: Uint8Array) => pipe(bytes, new DecompressionStream('deflate-raw'));
+
+// 履歴の経歴書から共有する項目だけを取り出す（ID・日時は共有しない）
+export const toSharedSession = ({ title, mode, dictionary, provider, model, language, taxonomy, inputs, results, details }: SharedSession): SharedSession =>
+  ({ title, mode, dictionary, provider, model, language, taxonomy, inputs, results, details });
+
+// 合言葉を指定すると暗号化したリンクを作る
+export const createShareUrl = async (session: SharedSession, baseUrl: string, passphrase = ''): Promise<string> => {
+  const packed = await compress(new TextEncoder().encode(JSON.stringify(toSharedSession(session))));
+  let payload = packed;
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const key = await deriveKey(passphrase, salt, FORMATS[CURRENT_VERSION].iterations);
+    const encrypted = await encryptBytes(key, iv, packed);
+    payload = new Uint8Array([...salt, ...iv, ...encrypted]);
+  }
+  const url = new URL(baseUrl);
+  url.hash = `${PREFIX.slice(1)}${CURRENT_VERSION}/${passphrase ? 'e' : 'p'}/${toBase64Url(payload)}`;
+  return url.href;
+};
+
+// 共有リンクでなければ null（中身の検証は decodeShareLink で行う）
+export const parseShareFragment = (hash: string): ShareLink | null => {
+  if (!hash.startsWith(PREFIX)) return null;
+  const [version, kind, data] = hash.slice(PREFIX.length).split('/');
+  if (!/^\d+$/.test(version) || (kind !== 'p' && kind !== 'e') || !data) return null;
+  return { version: Number(version), encrypted: kind === 'e', data };
+};
+
+export const decodeShareLink = async (link: ShareLink, passphrase = ''): Promise<ShareDecodeResult> => {
+  const format = FORMATS[link.version];
+  if (!format) return { ok: false, error: 'unsupportedVersion' };
+  let packed: Uint8Array;
+  try {
+    packed = fromBase64Url(link.data);
+  } catch {
+    return { ok: false, error: 'corrupted' };
+  }
+  if (link.encrypted) {
+    // 合言葉が違う場合は AES-GCM の認証に失敗する
+    try {
+      const key = await deriveKey(passphrase, packed.subarray(0, SALT_LENGTH), format.iterations);
+      packed = await decryptBytes(key, packed.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH), packed.subarray(SALT_LENGTH + IV_LENGTH));
+    } catch {
+      return { ok: false, error: 'wrongPassphrase' };
+    }
+  }
+  try {
+    const session = format.parse(JSON.parse(new TextDecoder().decode(await decompress(packed))));
+    return session ? { ok: true, session } : { ok: false, error: 'corrupted' };
+  } catch {
+    return { ok: false, error: 'corrupted' };
+  }
+};
+
+// 開いた後は URL からフラグメントを消し、再読み込みで同じリンクを開き直さないようにする
+export const clearShareFragment = () => history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson, parseAIResponse } from './structuredOutput'
+import { TAXONOMIES } from './taxonomy'
+
+const taxonomy = TAXONOMIES.pmbok6;
+
+describe('extractJson', () => {
+  it('前後の説明文とコードフェンスを取り除く', () => {
+    expect(extractJson('結果です。\n```json\n{"id": "pmbok6.risk", "text": "a"}\n```\n以上')).toEqual({ id: 'pmbok6.risk', text: 'a' });
+  });
+
+  it('文字列中の波括弧で切り出しを誤らない', () => {
+    expect(extractJson('{"id": "x", "text": "a } b"} {"id": "y"}')).toEqual({ id: 'x', text: 'a } b' });
+  });
+
+  it('全角引用符と末尾カンマを修復する', () => {
+    expect(extractJson('{“id”: “x”, “text”: “a”,}')).toEqual({ id: 'x', text: 'a' });
+  });
+
+  it('オブジェクトがなければ例外を投げる', () => {
+    expect(() => extractJson('分類できませんでした')).toThrow();
+  });
+});
+
+describe('parseAIResponse', () => {
+  it('エントリ ID で答えた応答を受け付ける', () => {
+    const result = parseAIResponse('{"id": "pmbok6.risk", "text": " 説明 "}', taxonomy);
+    expect(result.ok && result.value).toMatchObject({ id: 'pmbok6.risk', text: '説明' });
+  });
+
+  it('ID の代わりに名称（旧形式の label を含む）で答えた応答も照合する', () => {
+    const byName = parseAIResponse('{"id": "Risk Management", "text": "a"}', taxonomy);
+    const byLabel = parseAIResponse('{"label": "リスク・マネジメント", "text": "a"}', taxonomy);
+    expect(byName.ok && byName.value.id).toBe('pmbok6.risk');
+    expect(byLabel.ok && byLabel.value.id).toBe('pmbok6.risk');
+  });
+
+  it('id: null は該当なしの回答として受け付ける', () => {
+    const result = parseAIResponse('{"id": null, "text": "定常業務"}', taxonomy);
+    expect(result.ok && result.value).toEqual({ id: undefined, text: '定常業務', entry: undefined });
+  });
+
+  it('体系にない ID と空の text はまとめて指摘する', () => {
+    const result = parseAIResponse('{"id": "pmbok7.planning", "text": " "}', taxonomy);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toHaveLength(2);
+  });
+
+  it('配列や JSON でない応答は受け付けない', () => {
+    expect(parseAIResponse('[1, 2]', taxonomy).ok).toBe(false);
+    expect(parseAIResponse('not json', taxonomy).ok).toBe(false);
+  });
+});
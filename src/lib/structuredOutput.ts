@@ -0,0 +1,92 @@
+import type { Taxonomy, TaxonomyEntry } from './taxonomy'
+import { findEntry } from './taxonomy'
+
+// --- AI応答の構造化検証 ---
+// entry がなければ「どのエントリにも該当しない」という回答（id: null）
+export type AIResponse = {
+  id?: string;
+  text: string;
+  entry?: TaxonomyEntry;
+};
+
+export type ParseResult =
+  | { ok: true; value: AIResponse; json: string }
+  | { ok: false; errors: string[] };
+
+// プロバイダのJSONモードに渡すレスポンススキーマ（分類先は選択中の体系のエントリ ID）
+export const buildResponseSchema = (taxonomy: Taxonomy) => ({
+  type: 'object',
+  properties: {
+    id: { type: 'string', enum: taxonomy.entries.map(e => e.id) },
+    text: { type: 'string' },
+  },
+  required: ['id', 'text'],
+});
+
+// 文字列リテラルを考慮しつつ、最初の { と対応する } までを切り出す
+const sliceFirstObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+// 前後の説明文・コードフェンス・全角引用符・末尾カンマを許容してJSONを取り出す
+export const extractJson = (content: string): unknown => {
+  const unfenced = content.replace(/```(?:json)?/gi, '');
+  const candidate = sliceFirstObject(unfenced);
+  if (!candidate) throw new Error('JSONオブジェクトが見つかりません');
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const repaired = candidate
+      .replace(/[“”]/g, '"')
+      .replace(/,\s*([}\]])/g, '$1');
+    return JSON.parse(repaired);
+  }
+};
+
+export const parseAIResponse = (content: string, taxonomy: Taxonomy): ParseResult => {
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch (e) {
+    return { ok: false, errors: [`JSONとして解釈できません: ${(e as Error).message}`] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['応答がJSONオブジェクトではありません'] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  // ID の代わりに名称（旧形式の label を含む）を返すモデルもあるため、名称でも照合する
+  const key = [data.id, data.label].find((v): v is string => typeof v === 'string');
+  const entry = key ? findEntry(taxonomy, key) : undefined;
+  // id: null は該当なしの明示（スキーマでは許していないが、模擬AIは辞書分類と同じく対応なしを返す）
+  const unmapped = data.id === null && data.label === undefined;
+  if (!entry && !unmapped) errors.push(`id は次のいずれかである必要があります: ${taxonomy.entries.map(e => e.id).join(', ')}`);
+  if (typeof data.text !== 'string' || !data.text.trim()) errors.push('text は空でない文字列である必要があります');
+  if (errors.length > 0) return { ok: false, errors };
+
+  const value = { id: entry?.id, text: String(data.text).trim(), entry };
+  return { ok: true, value, json: JSON.stringify({ id: value.id ?? null, text: value.text }, null, 2) };
+};
+
+// 修復用のフォローアッププロンプト
+export const buildRepairPrompt = (errors: string[]): string =>
+  `Your previous reply could not be accepted:\n${errors.map(e => `- ${e}`).join('\n')}\nReturn ONLY the corrected JSON object with "id" and "text".`;
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { detectDelimiter, parseImportTable, looksLikeHeader, parseHours, guessMapping, buildImportedTasks } from './taskImport'
+import { createTask } from './tasks'
+
+describe('detectDelimiter', () => {
+  it('タブを含む貼り付けは TSV として読む', () => {
+    expect(detectDelimiter('業務\t時間\n窓口対応\t2')).toBe('\t');
+  });
+
+  it('タブのない貼り付けは文中の読点・カンマで分けず 1 行 1 業務にする', () => {
+    expect(detectDelimiter('窓口対応、電話対応を行った\n会議資料を作成し, 配布した')).toBe('line');
+  });
+
+  it('カンマ区切りの見出し行があれば CSV として読む', () => {
+    expect(detectDelimiter('業務,時間\n窓口対応,2')).toBe(',');
+  });
+
+  it('CSV ファイルは見出しがなくても CSV として読む', () => {
+    expect(detectDelimiter('窓口対応,2\n電話対応,1', 'tasks.CSV')).toBe(',');
+  });
+});
+
+describe('parseImportTable', () => {
+  it('1 行 1 業務の貼り付けは行ごとに 1 列の表にする', () => {
+    const table = parseImportTable('窓口対応、電話対応を行った\n会議資料を作成し, 配布した\n', false);
+    expect(table).toEqual({ headers: ['列1'], rows: [['窓口対応、電話対応を行った'], ['会議資料を作成し, 配布した']] });
+  });
+
+  it('見出し行を列名にし、足りない列は空欄で埋める', () => {
+    const table = parseImportTable('業務,時間,日付\n"窓口対応, 電話対応",1.5\n', true, i => `col${i}`, ',');
+    expect(table.headers).toEqual(['業務', '時間', '日付']);
+    expect(table.rows).toEqual([['窓口対応, 電話対応', '1.5', '']]);
+  });
+
+  it('区切りを指定して読み直せる', () => {
+    expect(parseImportTable('a,b', false, undefined, 'line').rows).toEqual([['a,b']]);
+    expect(parseImportTable('a,b', false, undefined, ',').rows).toEqual([['a', 'b']]);
+  });
+});
+
+describe('looksLikeHeader', () => {
+  it('見出しの語があるときだけ見出し行とみなす', () => {
+    expect(looksLikeHeader('業務内容\t工数\n窓口対応\t2')).toBe(true);
+    expect(looksLikeHeader('窓口対応\t2\n電話対応\t1')).toBe(false);
+  });
+});
+
+describe('parseHours', () => {
+  it('小数・時刻・分・単位付きの表記を時間数にする', () => {
+    expect(parseHours('1.5')).toBe(1.5);
+    expect(parseHours('1:30')).toBe(1.5);
+    expect(parseHours('９０分')).toBe(1.5);
+    expect(parseHours('2h')).toBe(2);
+    expect(parseHours('多め')).toBeUndefined();
+  });
+});
+
+describe('guessMapping / buildImportedTasks', () => {
+  it('値の形から列を推測し、空行と重複を数える', () => {
+    const table = parseImportTable('2024/04/01\t窓口で住民の相談に対応した\t2\n\t\t\n2024/04/02\t窓口で住民の相談に対応した\t1\n2024/04/03\t会議資料を作成した\t1:30', false);
+    const mapping = guessMapping(table);
+    expect(mapping).toEqual({ task: 1, hours: 2, date: 0 });
+
+    const { tasks, duplicates, blanks } = buildImportedTasks(table, mapping, [createTask('会議資料を作成した')]);
+    expect(tasks.map(t => [t.text, t.hours, t.date])).toEqual([['窓口で住民の相談に対応した', 2, '2024/04/01']]);
+    expect(duplicates).toBe(2);
+    expect(blanks).toBe(1);
+  });
+});
@@ -0,0 +1,154 @@
+import type { Task } from '../types'
+import { parseCsv } from './csv'
+import { createTask } from './tasks'
+
+// --- 業務リストの一括取り込み（CSV・TSV・貼り付け） ---
+export type ImportTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+// 取り込みに使う列の番号（時間・日付は任意）
+export type ColumnMapping = {
+  task: number;
+  hours: number | null;
+  date: number | null;
+};
+
+export type ImportResult = {
+  tasks: Task[];
+  duplicates: number;
+  blanks: number;
+};
+
+const TASK_HEADERS = ['業務', '内容', 'タスク', '作業', '事務', 'task', 'work', 'description'];
+const HOURS_HEADERS = ['時間', '工数', 'hours', 'hour', 'time'];
+const DATE_HEADERS = ['日付', '年月日', '日時', 'date'];
+
+const matchesHeader = (cell: string, candidates: string[]) => {
+  const value = cell.trim().toLowerCase();
+  return value !== '' && candidates.some(c => value.includes(c));
+};
+
+// Excel の CSV 保存は Shift_JIS のことが多いため、UTF-8 として読めなければ Shift_JIS で読み直す
+export const decodeFile = async (file: Blob): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+};
+
+// 列の区切り。line は 1 行を 1 業務として区切らない（文中の「、」「,」で分けない）
+export type Delimiter = '\t' | ',' | 'line';
+
+export const DELIMITERS: Delimiter[] = ['\t', ',', 'line'];
+
+const firstLine = (text: string) => text.split(/\r?\n/, 1)[0] ?? '';
+
+const isHeaderRow = (cells: string[]) => cells.some(cell => matchesHeader(cell, [...TASK_HEADERS, ...HOURS_HEADERS, ...DATE_HEADERS]));
+
+// タブを含む行があれば TSV（Excel からの貼り付け）。CSV ファイルか、カンマ区切りの見出し行があれば CSV。
+// それ以外の貼り付けは 1 行 1 業務として扱う（プレビューで変更できる）
+export const detectDelimiter = (text: string, filename = ''): Delimiter => {
+  const sample = text.split(/\r?\n/).slice(0, 20);
+  if (sample.some(line => line.includes('\t'))) return '\t';
+  if (/\.csv$/i.test(filename)) return ',';
+  const [cells = []] = parseCsv(firstLine(text), ',');
+  return cells.length > 1 && isHeaderRow(cells) ? ',' : 'line';
+};
+
+const splitRows = (text: string, delimiter: Delimiter): string[][] =>
+  delimiter === 'line' ? text.replace(/\r?\n$/, '').split(/\r?\n/).map(line => [line]) : parseCsv(text, delimiter);
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+// columnLabel は見出しのない列の表示名
+export const parseImportTable = (
+  text: string,
+  hasHeader: boolean,
+  columnLabel = (index: number) => `列${index + 1}`,
+  delimiter: Delimiter = detectDelimiter(text)
+): ImportTable => {
+  const rows = splitRows(text, delimiter);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+  const [first = [], ...rest] = rows.map(pad);
+  const headers = hasHeader ? first.map((h, i) => h.trim() || columnLabel(i)) : Array.from({ length: width }, (_, i) => columnLabel(i));
+  return { headers, rows: hasHeader ? rest : rows.map(pad) };
+};
+
+// 1行目に見出しらしい語があれば見出し行とみなす
+export const looksLikeHeader = (text: string, delimiter: Delimiter = detectDelimiter(text)): boolean => {
+  const [first = []] = splitRows(firstLine(text), delimiter);
+  return isHeaderRow(first);
+};
+
+const DATE_PATTERN = /^\s*(\d{4}[-/.年]\d{1,2}[-/.月]\d{1,2}日?|\d{1,2}\/\d{1,2})\s*$/;
+
+// 「1.5」「1:30」「90分」「2h」を時間数に変換する
+export const parseHours = (value: string): number | undefined => {
+  const v = value.normalize('NFKC').trim();
+  if (!v) return undefined;
+  const clock = v.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return Number(clock[1]) + Number(clock[2]) / 60;
+  const minutes = v.match(/^(\d+(?:\.\d+)?)\s*分$/);
+  if (minutes) return Number(minutes[1]) / 60;
+  const hours = v.match(/^(\d+(?:\.\d+)?)\s*(h|hr|hours?|時間)?$/i);
+  return hours ? Number(hours[1]) : undefined;
+};
+
+const columnValues = (table: ImportTable, index: number) =>
+  table.rows.map(r => r[index] ?? '').filter(v => v.trim() !== '');
+
+const isColumnOf = (table: ImportTable, index: number, test: (v: string) => boolean) => {
+  const values = columnValues(table, index);
+  return values.length > 0 && values.every(test);
+};
+
+// 見出しの語を優先し、なければ値の形（数値・日付・最も長い文章）から推測する
+export const guessMapping = (table: ImportTable): ColumnMapping => {
+  const indices = table.headers.map((_, i) => i);
+  const byHeader = (candidates: string[]) => indices.find(i => matchesHeader(table.headers[i], candidates));
+
+  const date = byHeader(DATE_HEADERS) ?? indices.find(i => isColumnOf(table, i, v => DATE_PATTERN.test(v)));
+  const hours = byHeader(HOURS_HEADERS)
+    ?? indices.find(i => i !== date && isColumnOf(table, i, v => parseHours(v) !== undefined));
+  const averageLength = (i: number) => {
+    const values = columnValues(table, i);
+    return values.length ? values.join('').length / values.length : 0;
+  };
+  const task = byHeader(TASK_HEADERS)
+    ?? indices.filter(i => i !== date && i !== hours).sort((a, b) => averageLength(b) - averageLength(a))[0]
+    ?? 0;
+  return { task, hours: hours ?? null, date: date ?? null };
+};
+
+// 表記ゆれ（全角・半角、空白）を吸収して重複を判定する
+const normalizeTask = (text: string) => text.normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const buildImportedTasks = (table: ImportTable, mapping: ColumnMapping, existing: Task[] = []): ImportResult => {
+  const seen = new Set(existing.map(t => normalizeTask(t.text)));
+  const tasks: Task[] = [];
+  let duplicates = 0;
+  let blanks = 0;
+
+  for (const row of table.rows) {
+    const text = (row[mapping.task] ?? '').replace(/\s+/g, ' ').trim();
+    if (!text || isBlankRow(row)) {
+      blanks++;
+      continue;
+    }
+    const key = normalizeTask(text);
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    const hours = mapping.hours !== null ? parseHours(row[mapping.hours] ?? '') : undefined;
+    const date = mapping.date !== null ? (row[mapping.date] ?? '').trim() : '';
+    tasks.push({ ...createTask(text), ...(hours !== undefined ? { hours } : {}), ...(date ? { date } : {}) });
+  }
+  return { tasks, duplicates, blanks };
+};
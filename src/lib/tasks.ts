@@ -0,0 +1,15 @@
+import type { Task, TaskDetail } from '../types'
+
+// --- 業務リストの操作 ---
+export const createTask = (text: string): Task => ({ id: `task-${crypto.randomUUID()}`, text });
+
+// 保存データ（入力の配列と付帯情報）から業務リストを復元する
+export const tasksFromInputs = (inputs: string[], details: TaskDetail[] = []): Task[] =>
+  inputs.map((text, i) => ({ ...createTask(text), ...details[i] }));
+
+export const taskDetail = ({ hours, frequency, date, achievement }: Task): TaskDetail => ({
+  ...(hours !== undefined ? { hours } : {}),
+  ...(frequency !== undefined ? { frequency } : {}),
+  ...(date ? { date } : {}),
+  ...(achievement ? { achievement } : {}),
+});
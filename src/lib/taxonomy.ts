@@ -0,0 +1,306 @@
+import type { DictionaryCategory } from './dictionary'
+import type { Locale } from './i18n'
+
+// --- PMフレームワークの分類体系（PMBOK 第6版・第7版・PMP 試験内容の概要） ---
+// スタンダードモード・AIモードとも、セッションで選んだ体系のエントリ ID に分類する
+export type TaxonomyId = 'pmbok6' | 'pmbok7' | 'eco';
+
+export type TaxonomyEntry = {
+  id: string; // 体系をまたいで一意（例: pmbok6.risk, eco.process.3）
+  label: string; // 公式の英語名
+  ja: string;
+  iconKey: string;
+  group?: string; // ECO のタスクが属するドメインの ID
+  hint?: Record<Locale, string>; // 経験の少ない領域を伸ばすための自治体業務の例（集計単位のみ）
+};
+
+export type Taxonomy = {
+  id: TaxonomyId;
+  name: string;
+  ja: string;
+  entries: TaxonomyEntry[]; // 分類先
+  domains?: TaxonomyEntry[]; // 集計の単位（未指定なら entries で集計する）
+  principles?: TaxonomyEntry[]; // 参考表示のみ（分類先にはしない）
+};
+
+const PMBOK6_AREAS: TaxonomyEntry[] = [
+  {
+    id: 'pmbok6.integration', label: 'Integration Management', ja: '統合マネジメント', iconKey: 'Layers',
+    hint: {
+      ja: '複数課にまたがる事業の全体調整や、年度計画の取りまとめ役を担う',
+      en: 'Coordinate a project that spans several divisions, or compile the annual plan',
+    },
+  },
+  {
+    id: 'pmbok6.scope', label: 'Scope Management', ja: 'スコープ・マネジメント', iconKey: 'FileText',
+    hint: {
+      ja: '事業の目的・成果物・対象範囲を文書化し、仕様書や要求定義の作成に関わる',
+      en: 'Document a project\'s goals, deliverables and scope, and help write specifications or requirements',
+    },
+  },
+  {
+    id: 'pmbok6.schedule', label: 'Schedule Management', ja: 'スケジュール・マネジメント', iconKey: 'CalendarClock',
+    hint: {
+      ja: '事業の工程表（WBS・ガントチャート）を作成し、進捗会議を運営する',
+      en: 'Build a WBS or Gantt chart for a project and run the progress meetings',
+    },
+  },
+  {
+    id: 'pmbok6.cost', label: 'Cost Management', ja: 'コスト・マネジメント', iconKey: 'Coins',
+    hint: {
+      ja: '予算要求・執行管理や、委託料の積算・費用対効果の検証を担当する',
+      en: 'Handle budget requests and execution, estimate contract costs or review cost-effectiveness',
+    },
+  },
+  {
+    id: 'pmbok6.quality', label: 'Quality Management', ja: '品質マネジメント', iconKey: 'ShieldCheck',
+    hint: {
+      ja: '業務マニュアルやチェックリストを整備し、ミスの原因分析と再発防止を進める',
+      en: 'Maintain manuals and checklists, analyse the root causes of errors and prevent recurrence',
+    },
+  },
+  {
+    id: 'pmbok6.resource', label: 'Resource Management', ja: '資源マネジメント', iconKey: 'Users',
+    hint: {
+      ja: '係内の業務分担や応援体制を組み、人員配置・育成計画に関わる',
+      en: 'Organize workload sharing and backup within the team, and take part in staffing and training plans',
+    },
+  },
+  {
+    id: 'pmbok6.communications', label: 'Communications Management', ja: 'コミュニケーション・マネジメント', iconKey: 'MessagesSquare',
+    hint: {
+      ja: '庁内外への報告・広報の計画を立て、会議体や情報共有の仕組みを整える',
+      en: 'Plan internal and public reporting, and set up meetings and information-sharing channels',
+    },
+  },
+  {
+    id: 'pmbok6.risk', label: 'Risk Management', ja: 'リスク・マネジメント', iconKey: 'AlertTriangle',
+    hint: {
+      ja: '事業のリスク洗い出しと対応策の事前検討、危機管理マニュアルの見直しに参加する',
+      en: 'Identify project risks and plan responses in advance, or help revise the crisis management manual',
+    },
+  },
+  {
+    id: 'pmbok6.procurement', label: 'Procurement Management', ja: '調達マネジメント', iconKey: 'Briefcase',
+    hint: {
+      ja: '入札・プロポーザルの仕様書作成や、委託先の選定・契約管理を担当する',
+      en: 'Write tender or proposal specifications, select contractors and manage contracts',
+    },
+  },
+  {
+    id: 'pmbok6.stakeholder', label: 'Stakeholder Management', ja: 'ステークホルダー・マネジメント', iconKey: 'HeartHandshake',
+    hint: {
+      ja: '住民説明会や関係団体との調整など、利害関係者との合意形成の場に関わる',
+      en: 'Take part in building consensus with stakeholders, such as resident briefings or talks with local groups',
+    },
+  },
+];
+
+const PMBOK7_DOMAINS: TaxonomyEntry[] = [
+  {
+    id: 'pmbok7.stakeholders', label: 'Stakeholders', ja: 'ステークホルダー', iconKey: 'HeartHandshake',
+    hint: {
+      ja: '住民説明会や関係団体との協議で、関係者の期待を把握し合意形成に関わる',
+      en: 'Take part in resident briefings or talks with local groups to understand expectations and build consensus',
+    },
+  },
+  {
+    id: 'pmbok7.team', label: 'Team', ja: 'チーム', iconKey: 'Users',
+    hint: {
+      ja: '係内の業務分担や OJT を任され、チームのまとめ役を経験する',
+      en: 'Take charge of workload sharing or on-the-job training and act as the team\'s coordinator',
+    },
+  },
+  {
+    id: 'pmbok7.development-approach', label: 'Development Approach and Life Cycle', ja: '開発アプローチとライフサイクル', iconKey: 'GitBranch',
+    hint: {
+      ja: 'システム導入や事業の進め方（一括・段階的・試行）を検討する場に参加する',
+      en: 'Join discussions on how a system rollout or project should proceed: all at once, in phases or as a pilot',
+    },
+  },
+  {
+    id: 'pmbok7.planning', label: 'Planning', ja: '計画', iconKey: 'FileText',
+    hint: {
+      ja: '事業計画や工程表、予算要求の作成を担当する',
+      en: 'Draft a project plan, a schedule or a budget request',
+    },
+  },
+  {
+    id: 'pmbok7.project-work', label: 'Project Work', ja: 'プロジェクト作業', iconKey: 'ClipboardList',
+    hint: {
+      ja: '委託先との定例会や課題管理表の運用など、事業の日々の進行管理を担う',
+      en: 'Run regular meetings with contractors or an issue log to manage a project day to day',
+    },
+  },
+  {
+    id: 'pmbok7.delivery', label: 'Delivery', ja: 'デリバリー', iconKey: 'Package',
+    hint: {
+      ja: '成果物の検収や新制度・新システムの稼働を担当し、価値を住民に届ける',
+      en: 'Handle acceptance of deliverables or the launch of a new scheme or system for residents',
+    },
+  },
+  {
+    id: 'pmbok7.measurement', label: 'Measurement', ja: '測定', iconKey: 'Gauge',
+    hint: {
+      ja: '事業評価や KPI の集計・分析を担当し、改善提案につなげる',
+      en: 'Compile and analyse program evaluations or KPIs and turn them into improvement proposals',
+    },
+  },
+  {
+    id: 'pmbok7.uncertainty', label: 'Uncertainty', ja: '不確かさ', iconKey: 'AlertTriangle',
+    hint: {
+      ja: '事業のリスク洗い出しや危機管理マニュアルの見直しに参加する',
+      en: 'Identify project risks or help revise the crisis management manual',
+    },
+  },
+];
+
+const PMBOK7_PRINCIPLES: TaxonomyEntry[] = [
+  { id: 'pmbok7.principle.stewardship', label: 'Be a diligent, respectful, and caring steward', ja: '勤勉で、敬意を払い、面倒見の良いスチュワードであること', iconKey: 'Shield' },
+  { id: 'pmbok7.principle.team', label: 'Create a collaborative project team environment', ja: '協働的なプロジェクト・チーム環境を構築すること', iconKey: 'Users' },
+  { id: 'pmbok7.principle.stakeholders', label: 'Effectively engage with stakeholders', ja: 'ステークホルダーと効果的に関わること', iconKey: 'HeartHandshake' },
+  { id: 'pmbok7.principle.value', label: 'Focus on value', ja: '価値に焦点を当てること', iconKey: 'Target' },
+  { id: 'pmbok7.principle.systems-thinking', label: 'Recognize, evaluate, and respond to system interactions', ja: 'システムの相互作用を認識し、評価し、対応すること', iconKey: 'Network' },
+  { id: 'pmbok7.principle.leadership', label: 'Demonstrate leadership behaviors', ja: 'リーダーシップを示すこと', iconKey: 'Flag' },
+  { id: 'pmbok7.principle.tailoring', label: 'Tailor based on context', ja: '状況に応じてテーラリングすること', iconKey: 'Puzzle' },
+  { id: 'pmbok7.principle.quality', label: 'Build quality into processes and deliverables', ja: 'プロセスと成果物に品質を組み込むこと', iconKey: 'ShieldCheck' },
+  { id: 'pmbok7.principle.complexity', label: 'Navigate complexity', ja: '複雑さに対処すること', iconKey: 'Compass' },
+  { id: 'pmbok7.principle.risk', label: 'Optimize risk responses', ja: 'リスク対応を最適化すること', iconKey: 'AlertTriangle' },
+  { id: 'pmbok7.principle.adaptability', label: 'Embrace adaptability and resiliency', ja: '適応力と回復力を持つこと', iconKey: 'RefreshCw' },
+  { id: 'pmbok7.principle.change', label: 'Enable change to achieve the envisioned future state', ja: '想定した将来の状態を達成するために変革できるようにすること', iconKey: 'TrendingUp' },
+];
+
+const ECO_DOMAINS: TaxonomyEntry[] = [
+  {
+    id: 'eco.people', label: 'People', ja: '人', iconKey: 'Users',
+    hint: {
+      ja: '係内の OJT や応援体制づくり、関係者との交渉・協働の場を経験する',
+      en: 'Take on team training, backup arrangements, or negotiations and collaboration with stakeholders',
+    },
+  },
+  {
+    id: 'eco.process', label: 'Process', ja: 'プロセス', iconKey: 'ClipboardList',
+    hint: {
+      ja: '事業の計画・予算・工程・品質・調達のいずれかを一通り担当する',
+      en: 'Own the plan, budget, schedule, quality or procurement of a project from start to finish',
+    },
+  },
+  {
+    id: 'eco.business', label: 'Business Environment', ja: 'ビジネス環境', iconKey: 'Landmark',
+    hint: {
+      ja: '法令・条例改正への対応や事業評価、庁内の業務改革に関わる',
+      en: 'Respond to changes in laws or ordinances, evaluate programs, or take part in organizational reform',
+    },
+  },
+];
+
+const ecoTasks = (group: string, iconKey: string, tasks: [string, string][]): TaxonomyEntry[] =>
+  tasks.map(([label, ja], i) => ({ id: `${group}.${i + 1}`, label, ja, iconKey, group }));
+
+// PMP 試験内容の概要（2021年1月版）のタスク
+const ECO_TASKS: TaxonomyEntry[] = [
+  ...ecoTasks('eco.people', 'Users', [
+    ['Manage conflict', 'コンフリクトをマネジメントする'],
+    ['Lead a team', 'チームを率いる'],
+    ['Support team performance', 'チームのパフォーマンスを支援する'],
+    ['Empower team members and stakeholders', 'チーム・メンバーとステークホルダーに権限を委譲する'],
+    ['Ensure team members/stakeholders are adequately trained', 'チーム・メンバーとステークホルダーが十分な訓練を受けられるようにする'],
+    ['Build a team', 'チームを構築する'],
+    ['Address and remove impediments, obstacles, and blockers for the team', 'チームの障害・障壁・妨げに対処し取り除く'],
+    ['Negotiate project agreements', 'プロジェクトの合意事項を交渉する'],
+    ['Collaborate with stakeholders', 'ステークホルダーと協働する'],
+    ['Build shared understanding', '共通の理解を形成する'],
+    ['Engage and support virtual teams', 'バーチャル・チームを関与させ支援する'],
+    ['Define team ground rules', 'チームのグラウンド・ルールを定める'],
+    ['Mentor relevant stakeholders', '関係するステークホルダーを指導する'],
+    ['Promote team performance through the application of emotional intelligence', '感情的知性を活用してチームのパフォーマンスを高める'],
+  ]),
+  ...ecoTasks('eco.process', 'ClipboardList', [
+    ['Execute project with the urgency required to deliver business value', 'ビジネス価値を届けるために必要な緊急性をもってプロジェクトを実行する'],
+    ['Manage communications', 'コミュニケーションをマネジメントする'],
+    ['Assess and manage risks', 'リスクを評価しマネジメントする'],
+    ['Engage stakeholders', 'ステークホルダーを関与させる'],
+    ['Plan and manage budget and resources', '予算と資源を計画しマネジメントする'],
+    ['Plan and manage schedule', 'スケジュールを計画しマネジメントする'],
+    ['Plan and manage quality of products/deliverables', 'プロダクトと成果物の品質を計画しマネジメントする'],
+    ['Plan and manage scope', 'スコープを計画しマネジメントする'],
+    ['Integrate project planning activities', 'プロジェクトの計画活動を統合する'],
+    ['Manage project changes', 'プロジェクトの変更をマネジメントする'],
+    ['Plan and manage procurement', '調達を計画しマネジメントする'],
+    ['Manage project artifacts', 'プロジェクトの作成物をマネジメントする'],
+    ['Determine appropriate project methodology/methods and practices', '適切なプロジェクトの方法論・手法・慣行を決定する'],
+    ['Establish project governance structure', 'プロジェクトのガバナンス体制を確立する'],
+    ['Manage project issues', 'プロジェクトの課題をマネジメントする'],
+    ['Ensure knowledge transfer for project continuity', 'プロジェクト継続のための知識移転を確実にする'],
+    ['Plan and manage project/phase closure or transitions', 'プロジェクトやフェーズの終結・移行を計画しマネジメントする'],
+  ]),
+  ...ecoTasks('eco.business', 'Landmark', [
+    ['Plan and manage project compliance', 'プロジェクトのコンプライアンスを計画しマネジメントする'],
+    ['Evaluate and deliver project benefits and value', 'プロジェクトのベネフィットと価値を評価し提供する'],
+    ['Evaluate and address external business environment changes for impact on scope', '外部のビジネス環境の変化がスコープに与える影響を評価し対処する'],
+    ['Support organizational change', '組織の変革を支援する'],
+  ]),
+];
+
+export const TAXONOMIES: Record<TaxonomyId, Taxonomy> = {
+  pmbok6: { id: 'pmbok6', name: 'PMBOK® Guide 6th Edition: Knowledge Areas', ja: 'PMBOK® ガイド第6版 知識エリア', entries: PMBOK6_AREAS },
+  pmbok7: {
+    id: 'pmbok7',
+    name: 'PMBOK® Guide 7th Edition: Performance Domains',
+    ja: 'PMBOK® ガイド第7版 パフォーマンス領域',
+    entries: PMBOK7_DOMAINS,
+    principles: PMBOK7_PRINCIPLES,
+  },
+  eco: { id: 'eco', name: 'PMP® Examination Content Outline (2021)', ja: 'PMP® 試験内容の概要（2021年版）', entries: ECO_TASKS, domains: ECO_DOMAINS },
+};
+
+export const TAXONOMY_IDS: TaxonomyId[] = ['pmbok6', 'pmbok7', 'eco'];
+
+// 体系の指定がない履歴・共有データは従来どおり第6版として扱う
+export const DEFAULT_TAXONOMY: TaxonomyId = 'pmbok6';
+
+export const isTaxonomyId = (value: unknown): value is TaxonomyId => TAXONOMY_IDS.includes(value as TaxonomyId);
+
+export const entryName = (entry: { label: string; ja: string }, language: Locale) => (language === 'ja' ? entry.ja : entry.label);
+
+export const taxonomyName = (taxonomy: Taxonomy, language: Locale) => (language === 'ja' ? taxonomy.ja : taxonomy.name);
+
+const normalize = (s: string) => s.toLowerCase().replace(/^project\s+/, '').replace(/[\s・･]/g, '');
+
+// ID・公式英語名・日本語名のいずれでも引ける（「Project Risk Management」などの揺れも吸収する）
+export const findEntry = (taxonomy: Taxonomy, value: string): TaxonomyEntry | undefined => {
+  const key = normalize(value);
+  return taxonomy.entries.find(e => e.id === value || normalize(e.label) === key || normalize(e.ja) === key);
+};
+
+// スキル集計の軸（ECO はタスクをドメインにまとめる）
+export const profileAxes = (taxonomy: Taxonomy): TaxonomyEntry[] => taxonomy.domains ?? taxonomy.entries;
+
+export const axisOf = (taxonomy: Taxonomy, entry: TaxonomyEntry): TaxonomyEntry =>
+  taxonomy.domains?.find(d => d.id === entry.group) ?? entry;
+
+// 標準辞書のカテゴリと各体系のエントリの対応（辞書側で指定がない場合に使う）
+// どのキーワードにも該当しない general は根拠がないため、どのエントリにも対応させない
+const DEFAULT_CATEGORY_AREAS: Record<string, Record<TaxonomyId, string>> = {
+  crisis: { pmbok6: 'pmbok6.risk', pmbok7: 'pmbok7.uncertainty', eco: 'eco.process.3' },
+  stakeholder: { pmbok6: 'pmbok6.stakeholder', pmbok7: 'pmbok7.stakeholders', eco: 'eco.process.4' },
+  planning: { pmbok6: 'pmbok6.scope', pmbok7: 'pmbok7.planning', eco: 'eco.process.8' },
+  quality: { pmbok6: 'pmbok6.quality', pmbok7: 'pmbok7.delivery', eco: 'eco.process.7' },
+  schedule: { pmbok6: 'pmbok6.schedule', pmbok7: 'pmbok7.planning', eco: 'eco.process.6' },
+  data: { pmbok6: 'pmbok6.integration', pmbok7: 'pmbok7.measurement', eco: 'eco.process.12' },
+};
+
+export const categoryEntry = (category: DictionaryCategory, taxonomy: Taxonomy): TaxonomyEntry | undefined => {
+  const id = category.areas?.[taxonomy.id] ?? DEFAULT_CATEGORY_AREAS[category.id]?.[taxonomy.id];
+  return id ? taxonomy.entries.find(e => e.id === id) : undefined;
+};
+
+// --- localStorage 永続化（新しいセッションで使う体系） ---
+const TAXONOMY_KEY = 'pm_taxonomy';
+
+export const loadTaxonomyId = (): TaxonomyId => {
+  const saved = localStorage.getItem(TAXONOMY_KEY);
+  return isTaxonomyId(saved) ? saved : DEFAULT_TAXONOMY;
+};
+
+export const saveTaxonomyId = (id: TaxonomyId) => localStorage.setItem(TAXONOMY_KEY, id);
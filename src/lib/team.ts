@@ -0,0 +1,212 @@
+import type { PortfolioDocument } from './exporters'
+import type { SavedSession } from './history'
+import { toCsv } from './csv'
+import type { Locale } from './i18n'
+import { translate } from './i18n'
+import type { TaxonomyId, TaxonomyEntry } from './taxonomy'
+import { TAXONOMIES, DEFAULT_TAXONOMY, isTaxonomyId, findEntry, profileAxes, axisOf, entryName } from './taxonomy'
+
+// --- チーム（課・部）単位の集計 ---
+// 職員ごとに書き出した経歴書（JSON）や、共用端末に保存した履歴を名簿にまとめ、PM 分野ごとの経験を比べる
+
+export type TeamEntry = {
+  task: string;
+  label: string;
+  areaId?: string;
+};
+
+export type TeamMember = {
+  id: string;
+  name: string;
+  unit: string; // 所属（係・課など。空なら未設定）
+  source: string; // 取り込み元のファイル名・履歴のタイトル
+  taxonomy: TaxonomyId; // 経歴書を作ったときの分類体系
+  entries: TeamEntry[];
+  addedAt: number;
+};
+
+// --- 取り込み ---
+export type PortfolioParseResult = { ok: true; document: PortfolioDocument } | { ok: false; errors: string[] };
+
+const isEntry = (value: unknown): value is TeamEntry => {
+  const e = value as TeamEntry;
+  return !!e && typeof e === 'object' && typeof e.task === 'string' && typeof e.label === 'string' &&
+    (e.areaId === undefined || typeof e.areaId === 'string');
+};
+
+export const parsePortfolioJson = (json: string): PortfolioParseResult => {
+  let data: Partial<PortfolioDocument>;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { ok: false, errors: [`JSONの構文エラー: ${(e as Error).message}`] };
+  }
+  if (!data || typeof data !== 'object') return { ok: false, errors: ['ルートがオブジェクトではありません'] };
+  const errors: string[] = [];
+  if (data.version !== 1) errors.push(`未対応の経歴書バージョンです: ${String(data.version)}`);
+  if (!Array.isArray(data.entries)) errors.push('entries がありません');
+  else data.entries.forEach((e, i) => isEntry(e) || errors.push(`entries[${i}] に task と label が必要です`));
+  // 分類体系の導入前に書き出した経歴書は PMBOK 第6版として扱う
+  if (data.taxonomy !== undefined && !isTaxonomyId(data.taxonomy)) errors.push(`未対応の分類体系です: ${String(data.taxonomy)}`);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, document: { ...data, taxonomy: data.taxonomy ?? DEFAULT_TAXONOMY } as PortfolioDocument };
+};
+
+export const createMemberId = () => `member-${crypto.randomUUID()}`;
+
+export const memberFromPortfolio = (doc: PortfolioDocument, name: string, source: string, now = Date.now()): TeamMember => ({
+  id: createMemberId(),
+  name,
+  unit: '',
+  source,
+  taxonomy: doc.taxonomy,
+  entries: doc.entries.map(e => ({ task: e.task, label: e.label, ...(e.areaId ? { areaId: e.areaId } : {}) })),
+  addedAt: now,
+});
+
+// 履歴の results は inputs と同じ順に並ぶ
+export const memberFromSession = (session: SavedSession, name: string, now = Date.now()): TeamMember => ({
+  id: createMemberId(),
+  name,
+  unit: '',
+  source: session.title,
+  taxonomy: session.taxonomy ?? DEFAULT_TAXONOMY,
+  entries: session.results.flatMap((r, i) =>
+    r.isError ? [] : [{ task: session.inputs[i] ?? '', label: r.label, ...(r.areaId ? { areaId: r.areaId } : {}) }]
+  ),
+  addedAt: now,
+});
+
+// --- 名簿の保存（共用端末で複数人分を集めるため localStorage に残す） ---
+const ROSTER_KEY = 'pm_team_roster';
+
+const isMember = (value: unknown): value is TeamMember => {
+  const m = value as TeamMember;
+  return !!m && typeof m === 'object' && typeof m.id === 'string' && typeof m.name === 'string' &&
+    typeof m.unit === 'string' && isTaxonomyId(m.taxonomy) && Array.isArray(m.entries) && m.entries.every(isEntry);
+};
+
+export const loadRoster = (): TeamMember[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ROSTER_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isMember) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRoster = (members: TeamMember[]) => localStorage.setItem(ROSTER_KEY, JSON.stringify(members));
+
+// --- 集計 ---
+export type TeamRow = {
+  memberId: string;
+  name: string; // 匿名化した場合は「職員 1」など
+  unit: string;
+  counts: Record<string, number>; // 集計軸の ID ごとの件数
+  unmapped: number; // 集計中の体系に対応しない件数
+  total: number;
+  otherTaxonomy: boolean; // 別の分類体系で作られた経歴書
+};
+
+export type TeamTotals = {
+  label: string; // 所属名、または部全体
+  members: number;
+  counts: Record<string, number>;
+  experienced: Record<string, number>; // その分野の経験がある人数
+  unmapped: number;
+  total: number;
+};
+
+export type TeamSummary = {
+  taxonomy: TaxonomyId;
+  axes: TaxonomyEntry[];
+  rows: TeamRow[];
+  units: TeamTotals[]; // 所属ごとの小計（所属が1つ以下なら空）
+  totals: TeamTotals;
+  max: number; // ヒートマップの色の基準（1人・1分野の最大件数）
+};
+
+// エントリ ID、分類体系の名称の順に照合し、集計軸（ECO はドメイン）へ寄せる
+const resolveAxis = (entry: TeamEntry, taxonomyId: TaxonomyId): TaxonomyEntry | undefined => {
+  const taxonomy = TAXONOMIES[taxonomyId];
+  const found = (entry.areaId && findEntry(taxonomy, entry.areaId)) || findEntry(taxonomy, entry.label);
+  return found ? axisOf(taxonomy, found) : undefined;
+};
+
+// 最も多くの職員が使っている分類体系を集計の既定にする
+export const dominantTaxonomy = (members: TeamMember[], fallback: TaxonomyId): TaxonomyId => {
+  const counts = new Map<TaxonomyId, number>();
+  for (const m of members) counts.set(m.taxonomy, (counts.get(m.taxonomy) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? fallback;
+};
+
+const sumRows = (label: string, rows: TeamRow[], axes: TaxonomyEntry[]): TeamTotals => ({
+  label,
+  members: rows.length,
+  counts: Object.fromEntries(axes.map(a => [a.id, rows.reduce((sum, r) => sum + r.counts[a.id], 0)])),
+  experienced: Object.fromEntries(axes.map(a => [a.id, rows.filter(r => r.counts[a.id] > 0).length])),
+  unmapped: rows.reduce((sum, r) => sum + r.unmapped, 0),
+  total: rows.reduce((sum, r) => sum + r.total, 0),
+});
+
+export type TeamSummaryOptions = {
+  anonymize?: boolean;
+  locale?: Locale;
+};
+
+export const buildTeamSummary = (members: TeamMember[], taxonomyId: TaxonomyId, options: TeamSummaryOptions = {}): TeamSummary => {
+  const locale = options.locale ?? 'ja';
+  const axes = profileAxes(TAXONOMIES[taxonomyId]);
+  const counted = members.map(m => {
+    const counts: Record<string, number> = Object.fromEntries(axes.map(a => [a.id, 0]));
+    let unmapped = 0;
+    for (const entry of m.entries) {
+      const axis = resolveAxis(entry, taxonomyId);
+      if (axis) counts[axis.id]++;
+      else unmapped++;
+    }
+    return {
+      memberId: m.id,
+      name: m.name,
+      unit: m.unit.trim(),
+      counts,
+      unmapped,
+      total: m.entries.length,
+      otherTaxonomy: m.taxonomy !== taxonomyId,
+    };
+  });
+  // 匿名化した場合は取り込んだ順から個人を推測されないよう件数の多い順に並べてから番号を振る
+  const rows = options.anonymize
+    ? [...counted].sort((a, b) => b.total - a.total).map((r, i) => ({ ...r, name: translate(locale, 'team.anonymousName', { number: i + 1 }) }))
+    : counted;
+
+  const unitNames = [...new Set(rows.map(r => r.unit))];
+  const noUnit = translate(locale, 'team.noUnit');
+  const units = unitNames.length > 1
+    ? unitNames.map(unit => sumRows(unit || noUnit, rows.filter(r => r.unit === unit), axes))
+    : [];
+  return {
+    taxonomy: taxonomyId,
+    axes,
+    rows,
+    units,
+    totals: sumRows(translate(locale, 'team.total'), rows, axes),
+    max: Math.max(0, ...rows.flatMap(r => axes.map(a => r.counts[a.id]))),
+  };
+};
+
+// --- CSV（表計算ソフトで人事資料に加工するため） ---
+export const teamSummaryCsv = (summary: TeamSummary, locale: Locale = 'ja'): string => {
+  const t = (key: 'team.name' | 'team.unit' | 'team.unmapped' | 'team.entries' | 'team.experienced') => translate(locale, key);
+  const axisCells = (values: Record<string, number>) => summary.axes.map(a => values[a.id]);
+  const members = (totals: TeamTotals) => translate(locale, 'team.memberCount', { count: totals.members });
+  const totalRow = (totals: TeamTotals) => [totals.label, members(totals), ...axisCells(totals.counts), totals.unmapped, totals.total];
+  return toCsv([
+    [t('team.name'), t('team.unit'), ...summary.axes.map(a => entryName(a, locale)), t('team.unmapped'), t('team.entries')],
+    ...summary.rows.map(r => [r.name, r.unit, ...axisCells(r.counts), r.unmapped, r.total]),
+    [],
+    ...summary.units.map(totalRow),
+    totalRow(summary.totals),
+    [t('team.experienced'), members(summary.totals), ...axisCells(summary.totals.experienced), '', ''],
+  ]);
+};
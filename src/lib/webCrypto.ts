@@ -0,0 +1,34 @@
+// --- Web Crypto の共通処理（APIキーの保管庫と共有リンクの暗号化） ---
+// 合言葉から PBKDF2（SHA-256）で AES-GCM の鍵を導く
+
+export const toBase64 = (bytes: Uint8Array) => {
+  // 長いデータでも引数の数の上限を超えないよう、少しずつ文字列にする
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+// URL にそのまま入れられる Base64（+ / を - _ に置き換え、末尾の = を省く）
+export const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) => fromBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, iv: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, plaintext as BufferSource));
+
+// 鍵が違う場合は AES-GCM の認証に失敗して例外になる
+export const decryptBytes = async (key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, data as BufferSource));
@@ -0,0 +1,66 @@
+// --- 型定義 ---
+export type Mode = 'standard' | 'ai';
+
+// 経歴書の箇条書き（STAR形式）を作るための追加質問への回答
+export type AchievementContext = {
+  scale?: string; // 規模（対象件数・予算・期間など）
+  stakeholders?: string; // 関係者
+  outcome?: string; // 成果
+  numbers?: string; // 成果を示す数値
+};
+
+// 入力された業務1件。並べ替え・削除しても結果との対応が崩れないよう ID で紐づける
+export type Task = {
+  id: string;
+  text: string;
+  hours?: number; // 一括取り込みやスキルプロフィールで入力する工数
+  frequency?: number; // 月あたりの回数
+  date?: string;
+  achievement?: AchievementContext;
+};
+
+// 履歴に保存するタスクの付帯情報（工数・頻度・日付・追加質問への回答）
+export type TaskDetail = Omit<Task, 'id' | 'text'>;
+
+// スコアリング結果の1エントリ（PMBOK領域ごとの順位・確信度）
+export type RankedArea = {
+  id: string;
+  label: string;
+  score: number;
+  confidence: number;
+};
+
+// カードを生成した経路（AI応答・修復後のAI応答・辞書フォールバック・スタンダード・利用者による修正）
+export type ResultSource = 'standard' | 'ai' | 'repaired' | 'fallback' | 'manual';
+
+export type SkillCategory = {
+  label: string;
+  areaId?: string; // 分類体系のエントリ ID（体系に対応しない辞書カテゴリ・手入力では未設定）
+  text: string;
+  iconKey: string; // ICON_MAP のキー（履歴・共有のためシリアライズ可能にする）
+  color: string;
+  bg: string;
+  isError?: boolean;
+  confidence?: number;
+  secondary?: RankedArea;
+  runnersUp?: RankedArea[];
+  source?: ResultSource;
+  bullets?: string[]; // 経歴書用の実績の箇条書き（STAR形式）
+};
+
+export type DebugLog = {
+  prompt: string;
+  input: string;
+  response: string;
+  attempts?: number;
+};
+
+// 結果カードの知識エリアを差し替える際の候補
+export type AreaOption = {
+  id?: string; // 分類体系のエントリ ID
+  label: string;
+  text?: string; // 指定がある場合は説明文も置き換える
+  iconKey: string;
+  color: string;
+  bg: string;
+};
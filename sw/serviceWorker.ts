@@ -0,0 +1,52 @@
+// --- Service Worker（オフライン対応） ---
+// ビルド時に vite.config.ts のプラグインが __PRECACHE__（バンドル・フォントなどの一覧）と
+// __CACHE_VERSION__ を埋め込み、dist/sw.js として出力する
+declare const self: ServiceWorkerGlobalScope;
+declare const __PRECACHE__: string[];
+declare const __CACHE_VERSION__: string;
+
+const CACHE_NAME = `gov-pm-translator-${__CACHE_VERSION__}`;
+const scoped = (path: string) => new URL(path, self.registration.scope).href;
+const INDEX_URL = scoped('index.html');
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(__PRECACHE__.map(scoped)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// 古いバージョンのキャッシュを消す
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('gov-pm-translator-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI プロバイダなど別オリジンへの通信には関与しない
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // 画面はネットワークを優先し、つながらなければキャッシュした index.html を返す
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match(INDEX_URL)) ?? Response.error())
+    );
+    return;
+  }
+
+  // ファイル名にハッシュを含むバンドルはキャッシュを優先し、未取得のものは取得時に保存する
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
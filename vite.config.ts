@@ -1,8 +1,30 @@
-import { defineConfig } from 'vite'
+import { readFileSync, readdirSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+import { defineConfig, transformWithEsbuild } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Service Worker をビルドし、出力したバンドル・フォントと public のファイルを事前キャッシュの一覧として埋め込む
+const serviceWorker = (): Plugin => ({
+  name: 'gov-pm-translator:service-worker',
+  apply: 'build',
+  enforce: 'post',
+  async generateBundle(_, bundle) {
+    const files = [...Object.keys(bundle), ...readdirSync('public')].filter(file => !file.endsWith('.map') && !file.startsWith('.'));
+    const precache = ['./', ...files.sort()];
+    const { code } = await transformWithEsbuild(readFileSync('sw/serviceWorker.ts', 'utf8'), 'serviceWorker.ts', {
+      define: {
+        __PRECACHE__: JSON.stringify(precache),
+        __CACHE_VERSION__: JSON.stringify(createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12)),
+      },
+      minify: true,
+    });
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source: code });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: '/gov-pm-translator/',
-})
\ No newline at end of file
+})